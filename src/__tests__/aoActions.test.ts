@@ -1,64 +1,106 @@
 import { describe, expect, it, vi, beforeEach } from 'vitest';
-import { spawnAOProcessAction, sendAOMessageAction, readAOResultAction, dryRunAOAction } from '../actions';
-import type { IAgentRuntime, Memory } from '@elizaos/core';
-import { AOService } from '../services/AOService';
+import {
+  spawnAOProcessAction,
+  sendAOMessageAction,
+  readAOResultAction,
+  dryRunAOAction,
+  evalAOLuaAction,
+  getAOTokenBalanceAction,
+  transferAOTokenAction,
+  getAOProcessInfoAction,
+  registerAOProcessAction,
+  listAOProcessesAction,
+  queryAOProcessesAction
+} from '../actions';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import type { AOService } from '../services/AOService';
+import type { SpawnRequest } from '../types';
+import { AOError, AOErrorCode } from '../utils/errors';
 
-// Mock dependencies
-vi.mock('../services/AOService', async () => {
-  const { vi } = await import('vitest');
-  return {
-    AOService: vi.fn(),
-    StarterService: vi.fn()
-  };
-});
+type MockFn = ReturnType<typeof vi.fn>;
 
-// Mock runtime
+// Mock runtime with an in-memory cache for the process registry
+const cache = new Map<string, unknown>();
+const getService = vi.fn();
+const useModel = vi.fn();
 const mockRuntime = {
-  getService: vi.fn()
+  agentId: 'agent-123',
+  getService,
+  useModel,
+  getCache: vi.fn(async (key: string) => cache.get(key)),
+  setCache: vi.fn(async (key: string, value: unknown) => {
+    cache.set(key, value);
+    return true;
+  })
 } as unknown as IAgentRuntime;
 
+const MODULE_ID = 'Do_Uc2Sju_ffp6Ev0AnLVdPtot15rvMjP-a9VVaA5fM';
+const SCHEDULER_ID = '_GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA';
+
+function textMessage(text: string): Memory {
+  return {
+    entityId: 'user-123' as UUID,
+    roomId: 'room-123' as UUID,
+    content: { text }
+  };
+}
+
+function createMockService() {
+  return {
+    isInitialized: vi.fn().mockReturnValue(true),
+    spawnProcess: vi.fn(),
+    spawnAndLoad: vi.fn(),
+    validateSpawnTarget: vi.fn(),
+    resolveSpawn: vi.fn((input: SpawnRequest) => ({
+      module: input.module,
+      scheduler: input.scheduler,
+      tags: input.tags,
+      sources: []
+    })),
+    sendMessage: vi.fn(),
+    sendAndAwaitResult: vi.fn(),
+    readResult: vi.fn(),
+    dryRun: vi.fn(),
+    evalLua: vi.fn(),
+    getTokenClient: vi.fn(),
+    describeProcess: vi.fn(),
+    getGraphQLClient: vi.fn(),
+    getAddress: vi.fn().mockReturnValue('agent-wallet')
+  } satisfies Partial<Record<keyof AOService, MockFn>>;
+}
+
 describe('AO Actions', () => {
-  let mockService: any;
+  let mockService: ReturnType<typeof createMockService>;
 
   beforeEach(() => {
     vi.clearAllMocks();
-    mockService = {
-      isInitialized: vi.fn().mockReturnValue(true),
-      spawnProcess: vi.fn(),
-      sendMessage: vi.fn(),
-      readResult: vi.fn(),
-      dryRun: vi.fn()
-    };
-    
-    (mockRuntime.getService as any).mockReturnValue(mockService);
+    cache.clear();
+    mockService = createMockService();
+    getService.mockReturnValue(mockService);
   });
 
   describe('spawnAOProcessAction', () => {
     it('should validate with valid input', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            module: 'module-123',
-            scheduler: 'scheduler-123'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          module: MODULE_ID,
+          scheduler: SCHEDULER_ID
+        })
+      );
 
       const isValid = await spawnAOProcessAction.validate(mockRuntime, message);
       expect(isValid).toBe(true);
     });
 
-    it('should not validate with missing module', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            scheduler: 'scheduler-123'
-          })
-        }
-      } as any;
+    it('should validate without a module, which the preset or defaults supply', async () => {
+      const message = textMessage(
+        JSON.stringify({
+          scheduler: SCHEDULER_ID
+        })
+      );
 
       const isValid = await spawnAOProcessAction.validate(mockRuntime, message);
-      expect(isValid).toBe(false);
+      expect(isValid).toBe(true);
     });
 
     it('should spawn process successfully', async () => {
@@ -67,20 +109,18 @@ describe('AO Actions', () => {
       
       mockService.spawnProcess.mockResolvedValue(mockProcessId);
       
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            module: 'module-123',
-            scheduler: 'scheduler-123'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          module: MODULE_ID,
+          scheduler: SCHEDULER_ID
+        })
+      );
 
       const result = await spawnAOProcessAction.handler(mockRuntime, message, undefined, {}, mockCallback);
       
-      expect(mockService.spawnProcess).toHaveBeenCalledWith('module-123', 'scheduler-123', undefined, undefined);
+      expect(mockService.spawnProcess).toHaveBeenCalledWith(MODULE_ID, SCHEDULER_ID, undefined, undefined, { network: undefined });
       expect(mockCallback).toHaveBeenCalledWith({
-        text: 'Spawning AO process with module module-123...',
+        text: `Spawning AO process with module ${MODULE_ID}...`,
         action: 'SPAWN_AO_PROCESS'
       });
       expect(result).toBeDefined();
@@ -89,31 +129,152 @@ describe('AO Actions', () => {
         expect(result.text).toBe(`Successfully spawned AO process with ID: ${mockProcessId}`);
       }
     });
+
+    it('should validate a natural-language spawn request', async () => {
+      const message = textMessage(`Spawn an AO process with module ${MODULE_ID} and scheduler ${SCHEDULER_ID}`);
+
+      expect(await spawnAOProcessAction.validate(mockRuntime, message)).toBe(true);
+      expect(await spawnAOProcessAction.validate(mockRuntime, textMessage('What is AO?'))).toBe(false);
+    });
+
+    it('should spawn process from extracted parameters', async () => {
+      mockService.spawnProcess.mockResolvedValue('process-123');
+      useModel.mockResolvedValue(
+        `\`\`\`json\n{"module": "${MODULE_ID}", "scheduler": "${SCHEDULER_ID}", "data": null}\n\`\`\``
+      );
+
+      const message = textMessage(`Spawn an AO process with module ${MODULE_ID} and scheduler ${SCHEDULER_ID}`);
+      const result = await spawnAOProcessAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(useModel).toHaveBeenCalled();
+      expect(mockService.spawnProcess).toHaveBeenCalledWith(MODULE_ID, SCHEDULER_ID, undefined, undefined, { network: undefined });
+      expect(result && result.success).toBe(true);
+    });
+
+    it('should remember spawned processes by label and Name tag', async () => {
+      mockService.spawnProcess.mockResolvedValue('process-123');
+
+      const message = textMessage(JSON.stringify({
+        module: MODULE_ID,
+        scheduler: SCHEDULER_ID,
+        label: 'counter',
+        tags: [{ name: 'Name', value: 'Counter v1' }]
+      }));
+      await spawnAOProcessAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(cache.get('ao/processes/agent-123')).toEqual([
+        expect.objectContaining({
+          processId: 'process-123',
+          labels: ['counter', 'Counter v1'],
+          module: MODULE_ID,
+          scheduler: SCHEDULER_ID,
+          source: 'spawned'
+        })
+      ]);
+    });
+
+    it('should spawn a process and load Lua sources', async () => {
+      mockService.spawnAndLoad.mockResolvedValue({
+        processId: 'process-123',
+        loads: [
+          { name: 'counter.lua', success: true, messageId: 'message-1' },
+          { name: 'handlers.lua', success: false, messageId: 'message-2', error: '[string "aos"]:3: unexpected symbol' }
+        ]
+      });
+
+      const message = textMessage(JSON.stringify({
+        module: MODULE_ID,
+        scheduler: SCHEDULER_ID,
+        sources: [{ path: 'counter.lua' }, { path: 'handlers.lua' }, { code: 'Counter = 1' }]
+      }));
+      const result = await spawnAOProcessAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.spawnAndLoad).toHaveBeenCalledWith(
+        MODULE_ID,
+        SCHEDULER_ID,
+        [{ path: 'counter.lua' }, { path: 'handlers.lua' }, { code: 'Counter = 1' }],
+        undefined,
+        undefined,
+        { network: undefined }
+      );
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('process-123');
+      expect(result?.text).toContain('counter.lua: loaded');
+      expect(result?.text).toContain('handlers.lua: failed: [string "aos"]:3: unexpected symbol');
+      expect(result?.text).toContain('1 remaining source(s) not loaded');
+      expect(result?.data?.loads).toHaveLength(2);
+    });
+
+    it('should spawn from a preset and load its sources', async () => {
+      mockService.resolveSpawn.mockReturnValue({
+        module: MODULE_ID,
+        scheduler: SCHEDULER_ID,
+        tags: [{ name: 'Name', value: 'rewards' }],
+        sources: [{ path: 'token.lua' }]
+      });
+      mockService.spawnAndLoad.mockResolvedValue({
+        processId: 'process-123',
+        loads: [{ name: 'token.lua', success: true, messageId: 'message-1' }]
+      });
+
+      const message = textMessage(JSON.stringify({ preset: 'token', label: 'rewards' }));
+      const result = await spawnAOProcessAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.resolveSpawn).toHaveBeenCalledWith({ preset: 'token', label: 'rewards' });
+      expect(mockService.spawnAndLoad).toHaveBeenCalledWith(
+        MODULE_ID,
+        SCHEDULER_ID,
+        [{ path: 'token.lua' }],
+        [{ name: 'Name', value: 'rewards' }],
+        undefined,
+        { network: undefined }
+      );
+      expect(result?.success).toBe(true);
+      expect(cache.get('ao/processes/agent-123')).toEqual([
+        expect.objectContaining({ processId: 'process-123', labels: ['rewards'], module: MODULE_ID })
+      ]);
+    });
+
+    it('should not validate malformed module or scheduler IDs', async () => {
+      const message = textMessage(JSON.stringify({ module: 'module-123', scheduler: SCHEDULER_ID }));
+
+      expect(await spawnAOProcessAction.validate(mockRuntime, message)).toBe(false);
+    });
+
+    it('should not spawn when the module or scheduler fails validation', async () => {
+      mockService.validateSpawnTarget.mockRejectedValue(
+        new AOError(AOErrorCode.VALIDATION_ERROR, 'Cannot spawn with this module and scheduler: Module x was not found on the gateway')
+      );
+
+      const message = textMessage(JSON.stringify({ module: MODULE_ID, scheduler: SCHEDULER_ID }));
+      const result = await spawnAOProcessAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.validateSpawnTarget).toHaveBeenCalledWith(MODULE_ID, SCHEDULER_ID, { network: undefined });
+      expect(mockService.spawnProcess).not.toHaveBeenCalled();
+      expect(result?.success).toBe(false);
+      expect(result?.data?.errorCode).toBe(AOErrorCode.VALIDATION_ERROR);
+    });
   });
 
   describe('sendAOMessageAction', () => {
     it('should validate with valid input', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            process: 'process-123',
-            data: 'test message'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          data: 'test message'
+        })
+      );
 
       const isValid = await sendAOMessageAction.validate(mockRuntime, message);
       expect(isValid).toBe(true);
     });
 
     it('should not validate with missing process', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            data: 'test message'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          data: 'test message'
+        })
+      );
 
       const isValid = await sendAOMessageAction.validate(mockRuntime, message);
       expect(isValid).toBe(false);
@@ -125,18 +286,16 @@ describe('AO Actions', () => {
       
       mockService.sendMessage.mockResolvedValue(mockMessageId);
       
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            process: 'process-123',
-            data: 'test message'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          data: 'test message'
+        })
+      );
 
       const result = await sendAOMessageAction.handler(mockRuntime, message, undefined, {}, mockCallback);
       
-      expect(mockService.sendMessage).toHaveBeenCalledWith('process-123', 'test message', undefined, undefined);
+      expect(mockService.sendMessage).toHaveBeenCalledWith('process-123', 'test message', undefined, undefined, { network: undefined });
       expect(mockCallback).toHaveBeenCalledWith({
         text: 'Sending message to AO process process-123...',
         action: 'SEND_AO_MESSAGE'
@@ -147,31 +306,129 @@ describe('AO Actions', () => {
         expect(result.text).toBe(`Successfully sent message with ID: ${mockMessageId} to process: process-123`);
       }
     });
+
+    it('should send message and wait for the result when requested', async () => {
+      mockService.sendAndAwaitResult.mockResolvedValue({
+        messageId: 'message-123',
+        result: { Output: 'pong', Messages: [], Spawns: [] }
+      });
+
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          data: 'ping',
+          waitForResult: true
+        })
+      );
+
+      const result = await sendAOMessageAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.sendMessage).not.toHaveBeenCalled();
+      expect(mockService.sendAndAwaitResult).toHaveBeenCalledWith('process-123', 'ping', undefined, undefined, { network: undefined });
+      expect(result && result.success).toBe(true);
+      expect(result?.text).toContain('Sent message with ID: message-123 to process: process-123');
+      expect(result?.data).toMatchObject({ messageId: 'message-123', result: { Output: 'pong' } });
+    });
+
+    it('should fail when the awaited result has an evaluation error', async () => {
+      mockService.sendAndAwaitResult.mockResolvedValue({
+        messageId: 'message-123',
+        result: { Output: '', Messages: [], Spawns: [], Error: 'Invalid quantity' }
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123', data: 'ping', waitForResult: true }));
+      const result = await sendAOMessageAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toBe('Message message-123 failed to evaluate on process process-123: Invalid quantity');
+      expect(result?.data).toMatchObject({ messageId: 'message-123', errorCode: AOErrorCode.EVALUATION_ERROR });
+    });
+
+    it('should validate a natural-language send request', async () => {
+      const message = textMessage('Send message "Hello AO!" to process PROCESS_ID_789');
+
+      expect(await sendAOMessageAction.validate(mockRuntime, message)).toBe(true);
+    });
+
+    it('should send message from extracted parameters', async () => {
+      mockService.sendMessage.mockResolvedValue('message-123');
+      useModel.mockResolvedValue(
+        '```json\n{"process": "PROCESS_ID_789", "data": "Hello AO!", "tags": [{"name": "Action", "value": "Greet"}]}\n```'
+      );
+
+      const message = textMessage('Send Greet with "Hello AO!" to process PROCESS_ID_789');
+      const result = await sendAOMessageAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.sendMessage).toHaveBeenCalledWith(
+        'PROCESS_ID_789',
+        'Hello AO!',
+        [{ name: 'Action', value: 'Greet' }],
+        undefined,
+        { network: undefined }
+      );
+      expect(result && result.success).toBe(true);
+    });
+
+    it('should resolve a known process label to its ID', async () => {
+      cache.set('ao/processes/agent-123', [
+        { processId: 'COUNTER_PROCESS_ID', labels: ['counter'], registeredAt: 1, source: 'spawned' }
+      ]);
+      mockService.sendMessage.mockResolvedValue('message-123');
+      useModel.mockResolvedValue(
+        '{"process": "my counter process", "data": "ping", "tags": [{"name": "Action", "value": "Ping"}]}'
+      );
+
+      await sendAOMessageAction.handler(mockRuntime, textMessage('Send Ping to my counter process'), undefined, {}, vi.fn());
+
+      expect(mockService.sendMessage).toHaveBeenCalledWith(
+        'COUNTER_PROCESS_ID',
+        'ping',
+        [{ name: 'Action', value: 'Ping' }],
+        undefined,
+        { network: undefined }
+      );
+    });
+
+    it('should send the message on the requested network', async () => {
+      mockService.sendMessage.mockResolvedValue('message-123');
+
+      const message = textMessage(JSON.stringify({ process: 'process-123', data: 'ping', network: 'local' }));
+      await sendAOMessageAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.sendMessage).toHaveBeenCalledWith('process-123', 'ping', undefined, undefined, { network: 'local' });
+    });
+
+    it('should fail with a validation error when extraction misses required fields', async () => {
+      useModel.mockResolvedValue('```json\n{"process": null, "data": "Hello AO!"}\n```');
+
+      const message = textMessage('Send message "Hello AO!" to my process');
+      const result = await sendAOMessageAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.sendMessage).not.toHaveBeenCalled();
+      expect(result && result.success).toBe(false);
+      expect(result?.text).toContain('Invalid action parameters: process');
+    });
   });
 
   describe('readAOResultAction', () => {
     it('should validate with valid input', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            process: 'process-123',
-            messageId: 'message-123'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          messageId: 'message-123'
+        })
+      );
 
       const isValid = await readAOResultAction.validate(mockRuntime, message);
       expect(isValid).toBe(true);
     });
 
     it('should not validate with missing process', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            messageId: 'message-123'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          messageId: 'message-123'
+        })
+      );
 
       const isValid = await readAOResultAction.validate(mockRuntime, message);
       expect(isValid).toBe(false);
@@ -188,18 +445,16 @@ describe('AO Actions', () => {
       
       mockService.readResult.mockResolvedValue(mockResult);
       
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            process: 'process-123',
-            messageId: 'message-123'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          messageId: 'message-123'
+        })
+      );
 
       const result = await readAOResultAction.handler(mockRuntime, message, undefined, {}, mockCallback);
       
-      expect(mockService.readResult).toHaveBeenCalledWith('process-123', 'message-123');
+      expect(mockService.readResult).toHaveBeenCalledWith('process-123', 'message-123', { network: undefined });
       expect(mockCallback).toHaveBeenCalledWith({
         text: 'Reading result for message message-123...',
         action: 'READ_AO_RESULT'
@@ -211,31 +466,78 @@ describe('AO Actions', () => {
         expect(result.text).toContain('Output: {"status":"success"}');
       }
     });
+
+    it('should read result from extracted parameters', async () => {
+      mockService.readResult.mockResolvedValue({ Output: {}, Messages: [], Spawns: [] });
+      useModel.mockResolvedValue('{"process": "PROCESS_ID_789", "messageId": "MESSAGE_ID_012"}');
+
+      const message = textMessage('Read result for message MESSAGE_ID_012 from process PROCESS_ID_789');
+      expect(await readAOResultAction.validate(mockRuntime, message)).toBe(true);
+
+      await readAOResultAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+      expect(mockService.readResult).toHaveBeenCalledWith('PROCESS_ID_789', 'MESSAGE_ID_012', { network: undefined });
+    });
+
+    it('should read the last message sent to the process when no message ID is given', async () => {
+      cache.set('ao/messages/agent-123', [
+        { messageId: 'older-message', process: 'process-123', tags: [], dataHash: '', sentAt: 1, status: 'pending' },
+        { messageId: 'latest-message', process: 'process-123', tags: [], dataHash: '', sentAt: 2, status: 'pending' },
+        { messageId: 'other-message', process: 'process-456', tags: [], dataHash: '', sentAt: 3, status: 'pending' }
+      ]);
+      mockService.readResult.mockResolvedValue({ Output: 'Pong', Messages: [], Spawns: [] });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123' }));
+      const result = await readAOResultAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.readResult).toHaveBeenCalledWith('process-123', 'latest-message', { network: undefined });
+      expect(result?.text).toBe('Result for message latest-message:\nOutput: Pong');
+    });
+
+    it('should fail when no message ID is given and none was sent', async () => {
+      const message = textMessage(JSON.stringify({ process: 'process-123' }));
+      const result = await readAOResultAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.readResult).not.toHaveBeenCalled();
+      expect(result?.success).toBe(false);
+      expect(result?.data?.errorCode).toBe(AOErrorCode.VALIDATION_ERROR);
+    });
+
+    it('should fail when the process reported an evaluation error', async () => {
+      mockService.readResult.mockResolvedValue({
+        Output: {},
+        Messages: [],
+        Spawns: [],
+        Error: 'Invalid quantity'
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123', messageId: 'message-123' }));
+      const result = await readAOResultAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('Invalid quantity');
+      expect(result?.data?.errorCode).toBe('EVALUATION_ERROR');
+    });
   });
 
   describe('dryRunAOAction', () => {
     it('should validate with valid input', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            process: 'process-123',
-            data: 'balance'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          data: 'balance'
+        })
+      );
 
       const isValid = await dryRunAOAction.validate(mockRuntime, message);
       expect(isValid).toBe(true);
     });
 
     it('should not validate with missing process', async () => {
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            data: 'balance'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          data: 'balance'
+        })
+      );
 
       const isValid = await dryRunAOAction.validate(mockRuntime, message);
       expect(isValid).toBe(false);
@@ -252,18 +554,16 @@ describe('AO Actions', () => {
       
       mockService.dryRun.mockResolvedValue(mockResult);
       
-      const message: Memory = {
-        content: {
-          text: JSON.stringify({
-            process: 'process-123',
-            data: 'balance'
-          })
-        }
-      } as any;
+      const message = textMessage(
+        JSON.stringify({
+          process: 'process-123',
+          data: 'balance'
+        })
+      );
 
       const result = await dryRunAOAction.handler(mockRuntime, message, undefined, {}, mockCallback);
       
-      expect(mockService.dryRun).toHaveBeenCalledWith('process-123', 'balance', undefined, undefined);
+      expect(mockService.dryRun).toHaveBeenCalledWith('process-123', 'balance', undefined, undefined, { network: undefined });
       expect(mockCallback).toHaveBeenCalledWith({
         text: 'Executing dry run on process process-123...',
         action: 'DRY_RUN_AO'
@@ -275,5 +575,220 @@ describe('AO Actions', () => {
         expect(result.text).toContain('Output: {"balance":100}');
       }
     });
+
+    it('should execute dry run from extracted parameters', async () => {
+      mockService.dryRun.mockResolvedValue({ Output: {}, Messages: [], Spawns: [] });
+      useModel.mockResolvedValue('{"process": "PROCESS_ID_789", "data": "balance"}');
+
+      const message = textMessage('Execute dry run with data "balance" on process PROCESS_ID_789');
+      expect(await dryRunAOAction.validate(mockRuntime, message)).toBe(true);
+
+      await dryRunAOAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+      expect(mockService.dryRun).toHaveBeenCalledWith('PROCESS_ID_789', 'balance', undefined, undefined, { network: undefined });
+    });
+
+    it('should fail when the output contains a Lua error', async () => {
+      mockService.dryRun.mockResolvedValue({
+        Output: {
+          data: '\u001b[31m[string "aos"]:12: attempt to index a nil value (field \'?\')\u001b[0m\nstack traceback:\n\t[C]: in ?'
+        },
+        Messages: [],
+        Spawns: []
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123', data: 'balance' }));
+      const result = await dryRunAOAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('[string "aos"]:12: attempt to index a nil value');
+      expect(result?.text).not.toContain('\u001b');
+      expect(result?.data?.errorCode).toBe('EVALUATION_ERROR');
+    });
+  });
+
+  describe('evalAOLuaAction', () => {
+    it('should validate a natural-language eval request', async () => {
+      expect(await evalAOLuaAction.validate(mockRuntime, textMessage('Eval this Lua in process PROCESS_ID_789: Counter = 0'))).toBe(true);
+      expect(await evalAOLuaAction.validate(mockRuntime, textMessage('Check the balance of process PROCESS_ID_789'))).toBe(false);
+    });
+
+    it('should evaluate Lua successfully', async () => {
+      mockService.evalLua.mockResolvedValue({
+        messageId: 'message-123',
+        result: { Output: { data: '42' }, Messages: [], Spawns: [] },
+        output: '42'
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123', code: 'return 6 * 7' }));
+      const result = await evalAOLuaAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.evalLua).toHaveBeenCalledWith('process-123', 'return 6 * 7', { network: undefined });
+      expect(result?.success).toBe(true);
+      expect(result?.text).toContain('Output: 42');
+    });
+
+    it('should fail when the code raises a Lua error', async () => {
+      mockService.evalLua.mockResolvedValue({
+        messageId: 'message-123',
+        result: { Output: { data: '[string "aos"]:1: unexpected symbol' }, Messages: [], Spawns: [] },
+        error: '[string "aos"]:1: unexpected symbol'
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123', code: '= 1' }));
+      const result = await evalAOLuaAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(result?.success).toBe(false);
+      expect(result?.text).toContain('unexpected symbol');
+      expect(result?.data?.errorCode).toBe('EVALUATION_ERROR');
+    });
+  });
+
+  describe('token actions', () => {
+    let mockToken: Record<'getTokenInfo' | 'getBalance' | 'transfer', MockFn>;
+
+    beforeEach(() => {
+      mockToken = {
+        getTokenInfo: vi.fn().mockResolvedValue({ process: 'token-123', ticker: 'TKN', denomination: 12 }),
+        getBalance: vi.fn(),
+        transfer: vi.fn()
+      };
+      mockService.getTokenClient.mockReturnValue(mockToken);
+    });
+
+    it('should report a token balance', async () => {
+      mockToken.getBalance.mockResolvedValue({
+        process: 'token-123',
+        account: 'wallet-abc',
+        quantity: '1500000000000',
+        amount: '1.5',
+        ticker: 'TKN',
+        denomination: 12
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'token-123', account: 'wallet-abc' }));
+      const result = await getAOTokenBalanceAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.getTokenClient).toHaveBeenCalledWith('token-123', undefined);
+      expect(mockToken.getBalance).toHaveBeenCalledWith('wallet-abc');
+      expect(result?.text).toBe('Balance of wallet-abc on TKN: 1.5 TKN');
+    });
+
+    it('should transfer tokens', async () => {
+      mockToken.transfer.mockResolvedValue({
+        messageId: 'message-123',
+        recipient: 'recipient-abc',
+        quantity: '1500000000000',
+        debitNotice: true,
+        creditNotice: true
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'token-123', recipient: 'recipient-abc', amount: '1.5' }));
+      const result = await transferAOTokenAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.getTokenClient).toHaveBeenCalledWith('token-123', undefined);
+      expect(mockToken.transfer).toHaveBeenCalledWith('recipient-abc', '1.5', { raw: undefined });
+      expect(result?.success).toBe(true);
+      expect(result?.text).toContain('Transferred 1.5 TKN to recipient-abc');
+    });
+
+    it('should fail a transfer with the token error code', async () => {
+      mockToken.transfer.mockRejectedValue(
+        new AOError(AOErrorCode.INSUFFICIENT_BALANCE, 'Transfer rejected by token process: Insufficient Balance!')
+      );
+
+      const message = textMessage(JSON.stringify({ process: 'token-123', recipient: 'recipient-abc', amount: '1.5' }));
+      const result = await transferAOTokenAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(result?.success).toBe(false);
+      expect(result?.data?.errorCode).toBe(AOErrorCode.INSUFFICIENT_BALANCE);
+    });
+  });
+
+  describe('getAOProcessInfoAction', () => {
+    it('should list the actions a process supports', async () => {
+      mockService.describeProcess.mockResolvedValue({
+        process: 'process-123',
+        name: 'Counter',
+        handlers: [{ action: 'Info' }, { action: 'Increment' }],
+        isToken: false,
+        responded: true,
+        fetchedAt: 0
+      });
+
+      const message = textMessage(JSON.stringify({ process: 'process-123' }));
+      const result = await getAOProcessInfoAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(mockService.describeProcess).toHaveBeenCalledWith('process-123', { refresh: undefined, network: undefined });
+      expect(result?.text).toBe('Process process-123 (Counter)\nSupported actions:\n- Info\n- Increment');
+    });
+  });
+
+  describe('process registry actions', () => {
+    it('should register a process and list it', async () => {
+      const registered = await registerAOProcessAction.handler(
+        mockRuntime,
+        textMessage(JSON.stringify({ process: 'process-123', label: 'counter' })),
+        undefined,
+        {},
+        vi.fn()
+      );
+      const listed = await listAOProcessesAction.handler(mockRuntime, textMessage('List my AO processes'), undefined, {}, vi.fn());
+
+      expect(registered?.success).toBe(true);
+      expect(registered?.text).toBe('Remembered process process-123 as "counter" (labels: counter)');
+      expect(listed?.text).toContain('- counter: process-123 (registered ');
+    });
+
+    it('should explain when no processes are known', async () => {
+      const listed = await listAOProcessesAction.handler(mockRuntime, textMessage('List my AO processes'), undefined, {}, vi.fn());
+
+      expect(listed?.text).toContain('No AO processes are known yet');
+    });
+  });
+
+  describe('queryAOProcessesAction', () => {
+    it("should list processes spawned by the agent's wallet in the last days", async () => {
+      const findProcessesByOwner = vi.fn().mockResolvedValue({
+        transactions: [
+          {
+            id: 'process-123',
+            owner: 'agent-wallet',
+            tags: [{ name: 'Name', value: 'counter' }],
+            timestamp: Date.UTC(2025, 0, 14)
+          },
+          { id: 'process-456', owner: 'agent-wallet', tags: [] }
+        ],
+        cursor: 'cursor-2',
+        hasNextPage: true
+      });
+      mockService.getGraphQLClient.mockReturnValue({ findProcessesByOwner });
+
+      const message = textMessage(JSON.stringify({ days: 7 }));
+      const result = await queryAOProcessesAction.handler(mockRuntime, message, undefined, {}, vi.fn());
+
+      expect(findProcessesByOwner).toHaveBeenCalledWith('agent-wallet', {
+        first: undefined,
+        after: undefined,
+        since: expect.any(Number),
+        network: undefined
+      });
+      expect(result?.text).toBe(
+        [
+          'Processes spawned by agent-wallet in the last 7 day(s):',
+          '- counter: process-123 (spawned 2025-01-14)',
+          '- unnamed: process-456 (pending)',
+          'More results are available; ask again with cursor cursor-2'
+        ].join('\n')
+      );
+    });
+
+    it('should fail when no owner is given and no wallet is configured', async () => {
+      mockService.getAddress.mockReturnValue(undefined);
+
+      const result = await queryAOProcessesAction.handler(mockRuntime, textMessage('{}'), undefined, {}, vi.fn());
+
+      expect(result?.success).toBe(false);
+      expect(result?.data?.errorCode).toBe(AOErrorCode.CONFIGURATION_ERROR);
+    });
   });
 });
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
+import { sendAOMessageAction, spawnAOProcessAction } from '../actions';
+import { AOEmulator } from '../services/AOEmulator';
+import { AOService } from '../services/AOService';
+import type { EmulatorHandler } from '../types';
+import { AOErrorCode, classifyAOError } from '../utils/errors';
+
+// aoconnect only signs data items with 4096-bit RSA keys
+const wallet = generateKeyPairSync('rsa', { modulusLength: 4096 }).privateKey.export({ format: 'jwk' });
+
+const cache = new Map<string, unknown>();
+const getService = vi.fn();
+const mockRuntime = {
+  agentId: 'agent-123',
+  getService,
+  getSetting: vi.fn().mockReturnValue(null),
+  getCache: vi.fn(async (key: string) => cache.get(key)),
+  setCache: vi.fn(async (key: string, value: unknown) => {
+    cache.set(key, value);
+    return true;
+  }),
+  emitEvent: vi.fn()
+} as unknown as IAgentRuntime;
+
+const counter: EmulatorHandler = (message, ao) => {
+  ao.state.count ??= 0;
+  switch (message.tags.Action) {
+    case 'Increment':
+      ao.state.count += Number(message.tags.By ?? 1);
+      ao.send({ Target: message.From, Tags: { Action: 'Incremented', Count: String(ao.state.count) } });
+      break;
+    case 'Count':
+      ao.print(`Count: ${ao.state.count}`);
+      break;
+    case 'Fail':
+      ao.state.count = -1;
+      throw new Error('boom');
+  }
+};
+
+function textMessage(text: string): Memory {
+  return {
+    entityId: 'user-123' as UUID,
+    roomId: 'room-123' as UUID,
+    content: { text }
+  };
+}
+
+describe('AOEmulator', () => {
+  let emulator: AOEmulator;
+  let service: AOService;
+  let module: string;
+
+  beforeEach(async () => {
+    cache.clear();
+    emulator = new AOEmulator();
+    module = emulator.defineModule(counter);
+    service = new AOService(mockRuntime, { wallet, ...emulator.config });
+    await service.initialize(mockRuntime);
+    getService.mockReturnValue(service);
+  });
+
+  it('should spawn processes and evaluate messages in order', async () => {
+    await expect(service.validateSpawnTarget(module, emulator.scheduler)).resolves.toMatchObject({
+      scheduler: { address: emulator.scheduler, url: emulator.url }
+    });
+    const processId = await service.spawnProcess(module, emulator.scheduler, [{ name: 'Name', value: 'counter' }]);
+
+    const first = await service.sendAndAwaitResult(processId, '', [{ name: 'Action', value: 'Increment' }]);
+    const second = await service.sendAndAwaitResult(processId, '', [
+      { name: 'Action', value: 'Increment' },
+      { name: 'By', value: '2' }
+    ]);
+
+    expect(emulator.getProcess(processId)).toMatchObject({ owner: service.getAddress(), module });
+    expect(second.result.Messages).toEqual([
+      expect.objectContaining({
+        Target: service.getAddress(),
+        Tags: [
+          { name: 'Action', value: 'Incremented' },
+          { name: 'Count', value: '3' }
+        ]
+      })
+    ]);
+    expect(emulator.getState(processId)).toEqual({ count: 3 });
+    expect(emulator.getMessages(processId).map(message => [message.Nonce, message.Id])).toEqual([
+      [0, processId],
+      [1, first.messageId],
+      [2, second.messageId]
+    ]);
+  });
+
+  it('should not keep state changes from dry runs or failed messages', async () => {
+    const processId = await service.spawnProcess(module, emulator.scheduler);
+    await service.sendAndAwaitResult(processId, '', [{ name: 'Action', value: 'Increment' }]);
+
+    const dryRun = await service.dryRun(processId, '', [{ name: 'Action', value: 'Increment' }]);
+    const failed = await service.sendMessage(processId, '', [{ name: 'Action', value: 'Fail' }]);
+    const count = await service.dryRun(processId, '', [{ name: 'Action', value: 'Count' }]);
+
+    expect(dryRun.Messages).toHaveLength(1);
+    expect((await service.readResult(processId, failed)).Error).toBe('boom');
+    expect(count.Output).toEqual({ data: 'Count: 1' });
+    expect(emulator.getState(processId)).toEqual({ count: 1 });
+  });
+
+  it('should page through results with cursors', async () => {
+    const processId = await service.spawnProcess(module, emulator.scheduler);
+    for (let i = 0; i < 3; i++) {
+      await service.sendAndAwaitResult(processId, '', [{ name: 'Action', value: 'Increment' }]);
+    }
+
+    const latest = await service.listResults(processId, { sort: 'DESC', limit: 1 });
+    const earlier = await service.listResults(processId, { from: '0', to: '2' });
+
+    expect(latest.edges).toHaveLength(1);
+    expect(latest.edges[0].cursor).toBe('3');
+    expect(earlier.edges.map(edge => edge.cursor)).toEqual(['1', '2']);
+  });
+
+  it('should find spawned processes through GraphQL', async () => {
+    const processId = await service.spawnProcess(module, emulator.scheduler);
+
+    const page = await service.getGraphQLClient().findProcessesByOwner(service.getAddress()!);
+
+    expect(page.transactions.map(transaction => transaction.id)).toEqual([processId]);
+  });
+
+  it('should reject messages to processes it does not run', async () => {
+    const error = await service
+      .sendMessage('agYcCFJtrMG6cqMuZfskIkFTGvUPddICmtQSBIoPdiA', '', [{ name: 'Action', value: 'Increment' }])
+      .catch(error => error);
+
+    expect(classifyAOError(error).code).toBe(AOErrorCode.PROCESS_NOT_FOUND);
+  });
+
+  it('should run actions end to end', async () => {
+    const spawned = await spawnAOProcessAction.handler(
+      mockRuntime,
+      textMessage(JSON.stringify({ module, scheduler: emulator.scheduler, label: 'counter' })),
+      undefined,
+      {}
+    );
+    const sent = await sendAOMessageAction.handler(
+      mockRuntime,
+      textMessage(
+        JSON.stringify({ process: 'counter', data: 'hi', tags: [{ name: 'Action', value: 'Increment' }], waitForResult: true })
+      ),
+      undefined,
+      {}
+    );
+
+    expect(spawned).toMatchObject({ success: true });
+    expect(sent).toMatchObject({ success: true });
+    expect(emulator.getState(spawned?.data?.processId)).toEqual({ count: 1 });
+  });
+
+  it('should serve the same endpoints over HTTP', async () => {
+    const url = await emulator.listen();
+    try {
+      const { fetch: _, ...config } = emulator.config;
+      const remote = new AOService(mockRuntime, { wallet, ...config });
+      await remote.initialize(mockRuntime);
+      const processId = await remote.spawnProcess(module, emulator.scheduler);
+
+      const { result } = await remote.sendAndAwaitResult(processId, '', [{ name: 'Action', value: 'Increment' }]);
+
+      expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      expect(result.Messages).toHaveLength(1);
+    } finally {
+      await emulator.close();
+    }
+  });
+});
@@ -0,0 +1,205 @@
+import { describe, expect, it, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { generateKeyPairSync } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type { IAgentRuntime, Memory } from '@elizaos/core';
+import { transferAOTokenAction } from '../actions';
+import { AOService } from '../services/AOService';
+import { AOErrorCode } from '../utils/errors';
+
+const PROCESS_ID = 'agYcCFJtrMG6cqMuZfskIkFTGvUPddICmtQSBIoPdiA';
+const MODULE_ID = 'Do_Uc2Sju_ffp6Ev0AnLVdPtot15rvMjP-a9VVaA5fM';
+const SCHEDULER_ID = '_GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA';
+
+interface StubRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+// Stub MU, CU and HyperBEAM node answering the requests aoconnect makes in each mode
+const requests: StubRequest[] = [];
+const server: Server = createServer((req, res) => {
+  req.resume();
+  req.on('end', () => {
+    const path = req.url ?? '/';
+    requests.push({ method: req.method ?? 'GET', path, headers: req.headers });
+    const json = (body: unknown) => {
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    if (path === '/mu') return json({ id: 'mu-assigned' });
+    if (path.startsWith('/cu/result/')) return json({ Output: { data: 'pong' }, Messages: [], Spawns: [] });
+    if (path.startsWith('/cu/dry-run')) return json({ Output: { data: 'dry' }, Messages: [], Spawns: [] });
+    if (path === '/push') {
+      res.setHeader('process', PROCESS_ID);
+      return res.end();
+    }
+    if (path === `/${PROCESS_ID}~process@1.0/push`) {
+      res.setHeader('slot', '7');
+      return res.end();
+    }
+    if (path === `/${PROCESS_ID}~process@1.0/compute&slot=7/results`) {
+      return json({ results: { Output: { data: 'pong' }, Messages: [{ Target: 'agent', Tags: [] }], Spawns: [] } });
+    }
+    res.statusCode = 404;
+    res.end('not found');
+  });
+});
+let baseUrl: string;
+
+// aoconnect only signs data items with 4096-bit RSA keys
+const wallet = generateKeyPairSync('rsa', { modulusLength: 4096 }).privateKey.export({ format: 'jwk' });
+
+const cache = new Map<string, unknown>();
+const mockRuntime = {
+  agentId: 'agent-123',
+  getSetting: vi.fn().mockReturnValue(null),
+  getCache: vi.fn(async (key: string) => cache.get(key)),
+  setCache: vi.fn(async (key: string, value: unknown) => {
+    cache.set(key, value);
+    return true;
+  }),
+  emitEvent: vi.fn()
+} as unknown as IAgentRuntime;
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests.length = 0;
+  cache.clear();
+});
+
+describe('AOService network modes', () => {
+  describe('legacy mode', () => {
+    it('should send messages to the MU and read results and dry runs from the CU', async () => {
+      const service = new AOService(mockRuntime, { wallet, muUrl: `${baseUrl}/mu`, cuUrl: `${baseUrl}/cu` });
+      await service.initialize(mockRuntime);
+
+      const { messageId, result } = await service.sendAndAwaitResult(PROCESS_ID, 'ping', [{ name: 'Action', value: 'Ping' }]);
+      const dryRun = await service.dryRun(PROCESS_ID, '', [{ name: 'Action', value: 'Info' }]);
+
+      expect(messageId).toMatch(/^[A-Za-z0-9_-]{43}$/);
+      expect(result.Output).toEqual({ data: 'pong' });
+      expect(dryRun.Output).toEqual({ data: 'dry' });
+      expect(requests.map(request => `${request.method} ${request.path}`)).toEqual([
+        'POST /mu',
+        `GET /cu/result/${messageId}?process-id=${PROCESS_ID}`,
+        `POST /cu/dry-run?process-id=${PROCESS_ID}`
+      ]);
+    });
+
+    it('should add the legacynet authority to spawns', () => {
+      const service = new AOService(mockRuntime, { defaultModule: MODULE_ID, defaultScheduler: SCHEDULER_ID });
+
+      expect(service.resolveSpawn({}).tags).toContainEqual({
+        name: 'Authority',
+        value: 'fcoN_xJeisVsPXA-trzVAuIiqO3ydLQxM-L4XbrQKzY'
+      });
+    });
+  });
+
+  describe('mainnet mode', () => {
+    let service: AOService;
+
+    beforeEach(async () => {
+      service = new AOService(mockRuntime, { wallet, mode: 'mainnet', hyperbeamUrl: baseUrl });
+      await service.initialize(mockRuntime);
+    });
+
+    it('should spawn processes through the HyperBEAM process device', async () => {
+      const processId = await service.spawnProcess(MODULE_ID, SCHEDULER_ID, [{ name: 'Name', value: 'counter' }]);
+
+      expect(processId).toBe(PROCESS_ID);
+      expect(requests).toHaveLength(1);
+      expect(requests[0]).toMatchObject({
+        method: 'POST',
+        path: '/push',
+        headers: {
+          type: 'Process',
+          device: 'process@1.0',
+          'scheduler-device': 'scheduler@1.0',
+          'execution-device': 'genesis-wasm@1.0',
+          module: MODULE_ID,
+          scheduler: SCHEDULER_ID,
+          name: 'counter'
+        }
+      });
+      expect(requests[0].headers.signature).toBeDefined();
+    });
+
+    it('should push messages and compute their result at the assigned slot', async () => {
+      const { messageId, result } = await service.sendAndAwaitResult(PROCESS_ID, 'ping', [{ name: 'Action', value: 'Ping' }]);
+
+      expect(messageId).toBe('7');
+      expect(result.Output).toEqual({ data: 'pong' });
+      expect(result.Messages).toHaveLength(1);
+      expect(requests.map(request => `${request.method} ${request.path}`)).toEqual([
+        `POST /${PROCESS_ID}~process@1.0/push`,
+        `GET /${PROCESS_ID}~process@1.0/compute&slot=7/results`
+      ]);
+      expect(requests[0].headers).toMatchObject({ type: 'Message', target: PROCESS_ID, action: 'Ping' });
+    });
+
+    it('should transfer raw token quantities without reading token info', async () => {
+      const runtime = { ...mockRuntime, getService: () => service } as unknown as IAgentRuntime;
+      const message = {
+        content: { text: JSON.stringify({ process: PROCESS_ID, recipient: SCHEDULER_ID, amount: '1500', raw: true }) }
+      } as Memory;
+
+      const result = await transferAOTokenAction.handler(runtime, message, undefined, {});
+
+      expect(result).toMatchObject({ success: true, data: { messageId: '7', quantity: '1500' } });
+      expect(requests.map(request => `${request.method} ${request.path}`)).toEqual([
+        `POST /${PROCESS_ID}~process@1.0/push`,
+        `GET /${PROCESS_ID}~process@1.0/compute&slot=7/results`
+      ]);
+      expect(requests[0].headers).toMatchObject({ action: 'Transfer', quantity: '1500' });
+    });
+
+    it('should reject message IDs where a slot is expected', async () => {
+      await expect(service.readResult(PROCESS_ID, 'agYcCFJtrMG6cqMuZfskIkFTGvUPddICmtQSBIoPdiA')).rejects.toMatchObject({
+        code: AOErrorCode.VALIDATION_ERROR
+      });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should reject legacy-only features with a clear error', async () => {
+      await expect(service.dryRun(PROCESS_ID, '')).rejects.toMatchObject({
+        code: AOErrorCode.UNSUPPORTED_OPERATION,
+        message: 'Dry runs are only available in legacy mode, and network "default" is in mainnet mode'
+      });
+      await expect(service.listResults(PROCESS_ID)).rejects.toMatchObject({ code: AOErrorCode.UNSUPPORTED_OPERATION });
+      expect(requests).toHaveLength(0);
+    });
+
+    it('should not add the legacynet authority to spawns', () => {
+      service = new AOService(mockRuntime, { mode: 'mainnet', defaultModule: MODULE_ID, defaultScheduler: SCHEDULER_ID });
+
+      expect(service.resolveSpawn({}).tags).toEqual([{ name: 'Name', value: 'default' }]);
+    });
+
+    it('should require a wallet and a HyperBEAM node URL', async () => {
+      const withoutWallet = new AOService(mockRuntime, { mode: 'mainnet', hyperbeamUrl: baseUrl });
+      await expect(withoutWallet.initialize(mockRuntime)).rejects.toMatchObject({
+        code: AOErrorCode.CONFIGURATION_ERROR,
+        message: 'Network "default" is in mainnet mode, which requires a wallet to sign every request'
+      });
+
+      const withoutNode = new AOService(mockRuntime, { wallet, mode: 'mainnet' });
+      await expect(withoutNode.initialize(mockRuntime)).rejects.toMatchObject({
+        code: AOErrorCode.CONFIGURATION_ERROR,
+        message: 'Network "default" is in mainnet mode but has no HyperBEAM node URL'
+      });
+    });
+  });
+});
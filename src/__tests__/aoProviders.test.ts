@@ -1,31 +1,38 @@
-import { describe, expect, it, vi } from 'vitest';
-import { aoServiceStatusProvider, aoWalletInfoProvider } from '../providers/aoProviders';
-import type { IAgentRuntime, Memory } from '@elizaos/core';
-import { AOService } from '../services/AOService';
-
-// Mock dependencies
-vi.mock('../services/AOService', async () => {
-  const { vi } = await import('vitest');
-  return {
-    AOService: vi.fn(),
-    StarterService: vi.fn()
-  };
-});
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  aoServiceStatusProvider,
+  aoWalletInfoProvider,
+  aoProcessInfoProvider,
+  aoKnownProcessesProvider,
+  aoRecentMessagesProvider
+} from '../providers/aoProviders';
+import type { IAgentRuntime, Memory, State, UUID } from '@elizaos/core';
 
 // Mock runtime
+const getService = vi.fn();
 const mockRuntime = {
-  getService: vi.fn()
+  getService
 } as unknown as IAgentRuntime;
 
+const emptyState: State = { values: {}, data: {}, text: '' };
+
+function textMessage(text: string): Memory {
+  return {
+    entityId: 'user-123' as UUID,
+    roomId: 'room-123' as UUID,
+    content: { text }
+  };
+}
+
 describe('AO Providers', () => {
   it('aoServiceStatusProvider should return status when service is available and initialized', async () => {
     const mockService = {
       isInitialized: vi.fn().mockReturnValue(true)
     };
     
-    (mockRuntime.getService as any).mockReturnValue(mockService);
+    getService.mockReturnValue(mockService);
     
-    const result = await aoServiceStatusProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoServiceStatusProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('AO service is initialized');
     expect(result.values).toEqual({
@@ -43,9 +50,9 @@ describe('AO Providers', () => {
       isInitialized: vi.fn().mockReturnValue(false)
     };
     
-    (mockRuntime.getService as any).mockReturnValue(mockService);
+    getService.mockReturnValue(mockService);
     
-    const result = await aoServiceStatusProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoServiceStatusProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('AO service is not initialized');
     expect(result.values).toEqual({
@@ -59,9 +66,9 @@ describe('AO Providers', () => {
   });
 
   it('aoServiceStatusProvider should return status when service is not available', async () => {
-    (mockRuntime.getService as any).mockReturnValue(null);
+    getService.mockReturnValue(null);
     
-    const result = await aoServiceStatusProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoServiceStatusProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('AO service is not available');
     expect(result.values).toEqual({
@@ -74,11 +81,11 @@ describe('AO Providers', () => {
   });
 
   it('aoServiceStatusProvider should handle errors gracefully', async () => {
-    (mockRuntime.getService as any).mockImplementation(() => {
+    getService.mockImplementation(() => {
       throw new Error('Service error');
     });
     
-    const result = await aoServiceStatusProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoServiceStatusProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('Error checking AO service status');
     expect(result.values).toEqual({
@@ -95,21 +102,40 @@ describe('AO Providers', () => {
     const mockSigner = {};
     const mockService = {
       isInitialized: vi.fn().mockReturnValue(true),
-      getSigner: vi.fn().mockReturnValue(mockSigner)
+      getSigner: vi.fn().mockReturnValue(mockSigner),
+      getAddress: vi.fn().mockReturnValue('wallet-address-123')
     };
     
-    (mockRuntime.getService as any).mockReturnValue(mockService);
+    getService.mockReturnValue(mockService);
     
-    const result = await aoWalletInfoProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoWalletInfoProvider.get(mockRuntime, textMessage(''), emptyState);
     
-    expect(result.text).toBe('Wallet is connected and ready for transactions');
+    expect(result.text).toBe('Wallet wallet-address-123 is connected and ready for transactions');
     expect(result.values).toEqual({
       connected: true,
-      address: 'Not available in this context'
+      address: 'wallet-address-123'
     });
     expect(result.data).toEqual({
       walletConnected: true,
-      address: 'Not available in this context'
+      address: 'wallet-address-123'
+    });
+  });
+
+  it('aoWalletInfoProvider should handle a connected wallet without a known address', async () => {
+    const mockService = {
+      isInitialized: vi.fn().mockReturnValue(true),
+      getSigner: vi.fn().mockReturnValue({}),
+      getAddress: vi.fn().mockReturnValue(undefined)
+    };
+    
+    getService.mockReturnValue(mockService);
+    
+    const result = await aoWalletInfoProvider.get(mockRuntime, textMessage(''), emptyState);
+    
+    expect(result.text).toBe('Wallet is connected and ready for transactions');
+    expect(result.values).toEqual({
+      connected: true,
+      address: 'Unknown'
     });
   });
 
@@ -119,9 +145,9 @@ describe('AO Providers', () => {
       getSigner: vi.fn().mockReturnValue(undefined)
     };
     
-    (mockRuntime.getService as any).mockReturnValue(mockService);
+    getService.mockReturnValue(mockService);
     
-    const result = await aoWalletInfoProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoWalletInfoProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('Wallet is not connected');
     expect(result.values).toEqual({
@@ -133,9 +159,9 @@ describe('AO Providers', () => {
   });
 
   it('aoWalletInfoProvider should return info when service is not available', async () => {
-    (mockRuntime.getService as any).mockReturnValue(null);
+    getService.mockReturnValue(null);
     
-    const result = await aoWalletInfoProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoWalletInfoProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('AO service is not available');
     expect(result.values).toEqual({
@@ -147,11 +173,11 @@ describe('AO Providers', () => {
   });
 
   it('aoWalletInfoProvider should handle errors gracefully', async () => {
-    (mockRuntime.getService as any).mockImplementation(() => {
+    getService.mockImplementation(() => {
       throw new Error('Service error');
     });
     
-    const result = await aoWalletInfoProvider.get(mockRuntime, {} as Memory, undefined as any);
+    const result = await aoWalletInfoProvider.get(mockRuntime, textMessage(''), emptyState);
     
     expect(result.text).toBe('Error checking wallet status');
     expect(result.values).toEqual({
@@ -162,4 +188,111 @@ describe('AO Providers', () => {
       error: 'Service error'
     });
   });
+
+  describe('aoProcessInfoProvider', () => {
+    const processId = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQ';
+    const strangerId = 'QPONMLKJIHGFEDCBAzyxwvutsrqponmlkjihgfedcba';
+    let mockService: Record<'isInitialized' | 'describeProcess', ReturnType<typeof vi.fn>>;
+    let runtime: IAgentRuntime;
+
+    beforeEach(() => {
+      mockService = {
+        isInitialized: vi.fn().mockReturnValue(true),
+        describeProcess: vi.fn().mockResolvedValue({
+          process: processId,
+          name: 'Counter',
+          handlers: [{ action: 'Info' }, { action: 'Increment' }],
+          isToken: false,
+          responded: true,
+          fetchedAt: 0
+        })
+      };
+      runtime = {
+        agentId: 'agent-123',
+        getService: vi.fn().mockReturnValue(mockService),
+        getCache: vi.fn().mockResolvedValue([
+          { processId, labels: ['counter'], registeredAt: Date.UTC(2025, 0, 1), source: 'spawned' }
+        ])
+      } as unknown as IAgentRuntime;
+    });
+
+    it('should describe known processes mentioned by ID or label', async () => {
+      const byId = await aoProcessInfoProvider.get(
+        runtime,
+        textMessage(`send Increment to ${processId}`),
+        emptyState
+      );
+      await aoProcessInfoProvider.get(runtime, textMessage('what can the Counter do?'), emptyState);
+
+      expect(mockService.describeProcess).toHaveBeenCalledTimes(2);
+      expect(mockService.describeProcess).toHaveBeenCalledWith(processId, { timeout: 5000, retry: false, network: undefined });
+      expect(byId.text).toContain(`Process ${processId} (Counter)`);
+      expect(byId.text).toContain('- Increment');
+      expect(byId.values).toEqual({ describedProcesses: 1 });
+    });
+
+    it('should describe the explicit process parameter', async () => {
+      const message = textMessage(JSON.stringify({ process: strangerId, network: 'local' }));
+
+      await aoProcessInfoProvider.get(runtime, message, emptyState);
+
+      expect(mockService.describeProcess).toHaveBeenCalledWith(strangerId, { timeout: 5000, retry: false, network: 'local' });
+    });
+
+    it('should not describe unknown IDs in free text', async () => {
+      const result = await aoProcessInfoProvider.get(
+        runtime,
+        textMessage(`is ${strangerId} a token?`),
+        emptyState
+      );
+
+      expect(mockService.describeProcess).not.toHaveBeenCalled();
+      expect(result.text).toBe('');
+    });
+
+    it('should skip messages without processes', async () => {
+      const result = await aoProcessInfoProvider.get(runtime, textMessage('hello'), emptyState);
+
+      expect(mockService.describeProcess).not.toHaveBeenCalled();
+      expect(result.text).toBe('');
+    });
+  });
+
+  it('aoKnownProcessesProvider should list known processes for extraction prompts', async () => {
+    const runtime = {
+      agentId: 'agent-123',
+      getCache: vi.fn().mockResolvedValue([
+        { processId: 'process-123', labels: ['counter'], registeredAt: Date.UTC(2025, 0, 1), source: 'registered' }
+      ])
+    } as unknown as IAgentRuntime;
+
+    const result = await aoKnownProcessesProvider.get(runtime, textMessage(''), emptyState);
+
+    expect(runtime.getCache).toHaveBeenCalledWith('ao/processes/agent-123');
+    expect(result.values).toEqual({ knownProcesses: '- counter: process-123 (registered 2025-01-01)' });
+    expect(result.text).toContain('# Known AO processes');
+  });
+
+  it('aoRecentMessagesProvider should list messages with unread results', async () => {
+    const now = Date.now();
+    const runtime = {
+      agentId: 'agent-123',
+      getCache: vi.fn().mockResolvedValue([
+        {
+          messageId: 'message-1',
+          process: 'process-123',
+          tags: [{ name: 'Action', value: 'Ping' }],
+          dataHash: '',
+          sentAt: now - 5 * 60000,
+          status: 'pending'
+        },
+        { messageId: 'message-2', process: 'process-123', tags: [], dataHash: '', sentAt: now, status: 'succeeded' }
+      ])
+    } as unknown as IAgentRuntime;
+
+    const result = await aoRecentMessagesProvider.get(runtime, textMessage(''), emptyState);
+
+    expect(result.text).toBe('# AO messages with unread results\n- Ping to process-123: message message-1, sent 5 min ago');
+    expect(result.values).toEqual({ outstandingMessages: 1 });
+  });
 });
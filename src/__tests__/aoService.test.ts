@@ -1,41 +1,84 @@
-import { describe, expect, it, vi, beforeEach } from 'vitest';
+import { describe, expect, it, vi, beforeAll, beforeEach, afterAll, afterEach } from 'vitest';
+import { createHash } from 'node:crypto';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as aoconnect from '@permaweb/aoconnect';
+import { configSchema, getAOConfig, setAOConfig } from '../config';
 import { AOService } from '../services/AOService';
-import type { IAgentRuntime } from '@elizaos/core';
-import { logger } from '@elizaos/core';
-
-// Mock dependencies
-vi.mock('@permaweb/aoconnect', async () => {
-  const { vi } = await import('vitest');
-  return {
-    connect: vi.fn(),
-    createSigner: vi.fn(),
-    spawn: vi.fn().mockResolvedValue('process-123'),
-    message: vi.fn().mockResolvedValue('message-123'),
-    result: vi.fn().mockResolvedValue({
-      Output: { status: 'success' },
-      Messages: [],
-      Spawns: [],
-      Error: null
-    }),
-    dryrun: vi.fn().mockResolvedValue({
-      Output: { balance: 100 },
-      Messages: [],
-      Spawns: [],
-      Error: null
-    })
-  };
+import { AOMessageLog } from '../services/AOMessageLog';
+import { AOProcessRegistry } from '../services/AOProcessRegistry';
+import { AOEventType } from '../types';
+import { AOErrorCode } from '../utils/errors';
+import { getWalletAddress } from '../utils/wallet';
+import { DEFAULT_RETRY_POLICY, getRetryDelay } from '../utils/retry';
+import type { IAgentRuntime, MessagePayload } from '@elizaos/core';
+import { EventType, logger } from '@elizaos/core';
+
+// Mock aoconnect; connect() hands out a client built from these mocks
+const aoSpawn = vi.fn().mockResolvedValue('process-123');
+const aoMessage = vi.fn().mockResolvedValue('message-123');
+const aoResult = vi.fn().mockResolvedValue({
+  Output: { status: 'success' },
+  Messages: [],
+  Spawns: [],
+  Error: null
 });
+const aoDryrun = vi.fn().mockResolvedValue({
+  Output: { balance: 100 },
+  Messages: [],
+  Spawns: [],
+  Error: null
+});
+const aoResults = vi.fn().mockResolvedValue({ edges: [], pageInfo: { hasNextPage: false } });
+const client = { spawn: aoSpawn, message: aoMessage, result: aoResult, dryrun: aoDryrun, results: aoResults };
+
+// Spied rather than module-mocked, so other test files get the real aoconnect back
+let connect: ReturnType<typeof vi.spyOn>;
+let createSigner: ReturnType<typeof vi.spyOn>;
 
-// Mock runtime
+beforeAll(() => {
+  connect = vi.spyOn(aoconnect, 'connect').mockImplementation((() => client) as unknown as typeof aoconnect.connect);
+  createSigner = vi
+    .spyOn(aoconnect, 'createSigner')
+    .mockReturnValue({ signer: 'mock-signer' } as unknown as ReturnType<typeof aoconnect.createSigner>);
+});
+
+// Mock runtime with an in-memory cache for the message log
+const cache = new Map<string, unknown>();
+const getSetting = vi.fn().mockReturnValue(null);
+const createMemory = vi.fn();
+const emitEvent = vi.fn();
 const mockRuntime = {
+  agentId: 'agent-123',
   getService: vi.fn(),
-  setService: vi.fn()
+  setService: vi.fn(),
+  getSetting,
+  getCache: vi.fn(async (key: string) => cache.get(key)),
+  setCache: vi.fn(async (key: string, value: unknown) => {
+    cache.set(key, value);
+    return true;
+  }),
+  ensureConnection: vi.fn(),
+  createMemory,
+  emitEvent
 } as unknown as IAgentRuntime;
 
+const testJwk = { kty: 'RSA', n: 'test-modulus', e: 'AQAB', d: 'test-private-exponent' };
+const walletDir = mkdtempSync(join(tmpdir(), 'plugin-ao-'));
+
+afterAll(() => {
+  connect.mockRestore();
+  createSigner.mockRestore();
+  rmSync(walletDir, { recursive: true, force: true });
+});
+
 describe('AOService', () => {
   let service: AOService;
 
   beforeEach(() => {
+    vi.spyOn(logger, 'info');
+    getSetting.mockReturnValue(null);
     service = new AOService(mockRuntime);
   });
 
@@ -70,6 +113,46 @@ describe('AOService', () => {
     expect(service.isInitialized()).toBe(true);
   });
 
+  it('should connect a separate client for each service', async () => {
+    const otherClient = { message: vi.fn().mockResolvedValue('message-456') };
+    connect.mockClear();
+    connect.mockImplementationOnce(() => ({ message: aoMessage })).mockImplementationOnce(() => otherClient);
+
+    const first = new AOService(mockRuntime, { wallet: {}, muUrl: 'https://mu-one.test' });
+    const second = new AOService(mockRuntime, { wallet: {}, muUrl: 'https://mu-two.test' });
+    await first.initialize(mockRuntime);
+    await second.initialize(mockRuntime);
+
+    expect(connect).toHaveBeenNthCalledWith(1, { MODE: 'legacy', MU_URL: 'https://mu-one.test' });
+    expect(connect).toHaveBeenNthCalledWith(2, { MODE: 'legacy', MU_URL: 'https://mu-two.test' });
+    expect(await second.sendMessage('process-123', 'hello')).toBe('message-456');
+    expect(await first.sendMessage('process-123', 'hello')).toBe('message-123');
+    expect(otherClient.message).toHaveBeenCalledTimes(1);
+  });
+
+  it('should read plugin config for its own runtime only', async () => {
+    const otherRuntime = { ...mockRuntime } as IAgentRuntime;
+    setAOConfig(otherRuntime, configSchema.parse({ AO_MU_URL: 'https://mu-other.test' }));
+    connect.mockClear();
+
+    service = new AOService(mockRuntime);
+    await service.initialize(mockRuntime);
+    const other = new AOService(otherRuntime);
+    await other.initialize(otherRuntime);
+
+    expect(getAOConfig(mockRuntime)).toBeUndefined();
+    expect(connect).toHaveBeenNthCalledWith(1, { MODE: 'legacy' });
+    expect(connect).toHaveBeenNthCalledWith(2, expect.objectContaining({ MU_URL: 'https://mu-other.test' }));
+  });
+
+  it('should treat empty settings as unset', () => {
+    const config = configSchema.parse({ AO_WALLET_JWK: '', AO_WALLET_PATH: '', AO_MU_URL: ' ' });
+
+    expect(config.AO_WALLET_JWK).toBeUndefined();
+    expect(config.AO_WALLET_PATH).toBeUndefined();
+    expect(config.AO_MU_URL).toBeUndefined();
+  });
+
   it('should spawn process successfully', async () => {
     service = new AOService(mockRuntime, { wallet: {} });
     await service.initialize(mockRuntime);
@@ -138,4 +221,1075 @@ describe('AOService', () => {
     expect(service.getSigner()).toBeUndefined();
     expect(logger.info).toHaveBeenCalledWith('AOService stopped');
   });
+
+  it('should load wallet from AO_WALLET_JWK setting', async () => {
+    getSetting.mockImplementation((key: string) =>
+      key === 'AO_WALLET_JWK' ? JSON.stringify(testJwk) : null
+    );
+
+    await service.initialize(mockRuntime);
+
+    expect(service.getSigner()).toBeDefined();
+    expect(service.config.wallet).toEqual(testJwk);
+    expect(service.getAddress()).toBe(getWalletAddress(testJwk));
+  });
+
+  it('should load wallet from AO_WALLET_PATH setting', async () => {
+    const walletPath = join(walletDir, 'wallet.json');
+    writeFileSync(walletPath, JSON.stringify(testJwk));
+    getSetting.mockImplementation((key: string) =>
+      key === 'AO_WALLET_PATH' ? walletPath : null
+    );
+
+    await service.initialize(mockRuntime);
+
+    expect(service.getSigner()).toBeDefined();
+    expect(service.config.wallet).toEqual(testJwk);
+  });
+
+  it('should reject an invalid wallet JWK with a configuration error', async () => {
+    getSetting.mockImplementation((key: string) =>
+      key === 'AO_WALLET_JWK' ? JSON.stringify({ kty: 'EC' }) : null
+    );
+
+    await expect(service.initialize(mockRuntime)).rejects.toMatchObject({
+      code: AOErrorCode.CONFIGURATION_ERROR
+    });
+  });
+
+  it('should reject a missing wallet file with a configuration error', async () => {
+    getSetting.mockImplementation((key: string) =>
+      key === 'AO_WALLET_PATH' ? join(walletDir, 'missing.json') : null
+    );
+
+    await expect(service.initialize(mockRuntime)).rejects.toMatchObject({
+      code: AOErrorCode.CONFIGURATION_ERROR
+    });
+  });
+
+  it('should require a wallet for write operations', async () => {
+    await service.initialize(mockRuntime);
+
+    expect(service.getSigner()).toBeUndefined();
+    await expect(service.spawnProcess('module-123', 'scheduler-123')).rejects.toMatchObject({
+      code: AOErrorCode.CONFIGURATION_ERROR
+    });
+    await expect(service.sendMessage('process-123', 'test data')).rejects.toMatchObject({
+      code: AOErrorCode.CONFIGURATION_ERROR
+    });
+  });
+
+  it('should derive the Arweave address from the JWK modulus', () => {
+    // SHA-256 of the bytes 0x01 0x02 0x03, base64url encoded
+    expect(getWalletAddress({ n: 'AQID' })).toBe('A5BYxvLAy0ksUzsKTRTvd8wPeKvMztUofYShogEc-4E');
+    expect(getWalletAddress(testJwk)).toHaveLength(43);
+  });
+
+  it('should clear the address when stopped', async () => {
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    expect(service.getAddress()).toBe(getWalletAddress(testJwk));
+
+    await service.stop();
+
+    expect(service.getAddress()).toBeUndefined();
+  });
+
+  it('should send a message and return its result', async () => {
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    const response = await service.sendAndAwaitResult('process-123', 'test data');
+
+    expect(response.messageId).toBe('message-123');
+    expect(response.result.Output).toEqual({ status: 'success' });
+  });
+
+  it('should poll until the result is available', async () => {
+    aoResult.mockRejectedValueOnce(new Error('503: Service Unavailable'));
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    const response = await service.sendAndAwaitResult('process-123', 'test data', undefined, undefined, {
+      initialDelay: 1
+    });
+
+    expect(response.result.Output).toEqual({ status: 'success' });
+  });
+
+  it('should stop polling on an error that is not transient', async () => {
+    aoResult.mockClear().mockRejectedValueOnce(new Error('404: Message not found'));
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    await expect(service.sendAndAwaitResult('process-123', 'test data', undefined, undefined, {
+      initialDelay: 1
+    })).rejects.toThrow('404: Message not found');
+    expect(aoResult).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up waiting for a result after the timeout', async () => {
+    aoResult.mockRejectedValue(new Error('503: Service Unavailable'));
+    service = new AOService(mockRuntime, { wallet: testJwk, defaultTimeout: 20 });
+    await service.initialize(mockRuntime);
+
+    try {
+      await expect(service.sendAndAwaitResult('process-123', 'test data', undefined, undefined, {
+        initialDelay: 5
+      })).rejects.toMatchObject({
+        code: AOErrorCode.TIMEOUT,
+        details: expect.objectContaining({ messageId: 'message-123', process: 'process-123' })
+      });
+    } finally {
+      aoResult.mockResolvedValue({
+        Output: { status: 'success' },
+        Messages: [],
+        Spawns: [],
+        Error: null
+      });
+    }
+  });
+
+  it('should evaluate Lua with an Eval message', async () => {
+    aoResult.mockResolvedValueOnce({
+      Output: { data: '\u001b[32m42\u001b[0m' },
+      Messages: [],
+      Spawns: []
+    });
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    const response = await service.evalLua('process-123', 'return 6 * 7');
+
+    expect(aoMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({
+        process: 'process-123',
+        data: 'return 6 * 7',
+        tags: [{ name: 'Action', value: 'Eval' }]
+      })
+    );
+    expect(response).toMatchObject({ messageId: 'message-123', output: '42', error: undefined });
+  });
+
+  it('should report Lua errors from an Eval result', async () => {
+    aoResult.mockResolvedValueOnce({
+      Output: { data: '[string "aos"]:1: unexpected symbol near \'=\'' },
+      Messages: [],
+      Spawns: []
+    });
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    const response = await service.evalLua('process-123', '= 1');
+
+    expect(response.error).toBe('[string "aos"]:1: unexpected symbol near \'=\'');
+  });
+
+  it('should wait for a new process before loading Lua sources', async () => {
+    aoDryrun.mockRejectedValueOnce(new Error('404: Process not found'));
+    const sourcePath = join(walletDir, 'counter.lua');
+    writeFileSync(sourcePath, 'Counter = 0');
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+    aoMessage.mockClear();
+
+    const response = await service.spawnAndLoad(
+      'module-123',
+      'scheduler-123',
+      [{ path: sourcePath }, { name: 'handlers', code: 'Handlers.add("Ping", "Ping", function () end)' }],
+      undefined,
+      undefined,
+      { initialDelay: 1 }
+    );
+
+    expect(aoDryrun).toHaveBeenCalledWith(expect.objectContaining({ process: 'process-123' }));
+    expect(aoMessage.mock.calls.map(call => call[0].data)).toEqual([
+      'Counter = 0',
+      'Handlers.add("Ping", "Ping", function () end)'
+    ]);
+    expect(response).toEqual({
+      processId: 'process-123',
+      loads: [
+        { name: 'counter.lua', success: true, messageId: 'message-123', output: undefined, error: undefined },
+        { name: 'handlers', success: true, messageId: 'message-123', output: undefined, error: undefined }
+      ]
+    });
+  });
+
+  it('should stop loading at the first Lua error', async () => {
+    aoResult.mockResolvedValueOnce({
+      Output: { data: '[string "aos"]:1: attempt to call a nil value' },
+      Messages: [],
+      Spawns: []
+    });
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    const response = await service.spawnAndLoad('module-123', 'scheduler-123', [{ code: 'broken()' }, { code: 'Counter = 0' }]);
+
+    expect(response.loads).toEqual([
+      expect.objectContaining({ name: 'inline-1', success: false, error: '[string "aos"]:1: attempt to call a nil value' })
+    ]);
+  });
+
+  it('should only read .lua files as sources', async () => {
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+
+    await expect(
+      service.spawnAndLoad('module-123', 'scheduler-123', [{ path: join(walletDir, 'wallet.json') }])
+    ).rejects.toMatchObject({ code: AOErrorCode.VALIDATION_ERROR });
+  });
+
+  it('should time out a hung dry run using the default timeout', async () => {
+    aoDryrun.mockImplementationOnce(() => new Promise(() => {}));
+    service = new AOService(mockRuntime, { defaultTimeout: 10, retry: { maxAttempts: 1 } });
+    await service.initialize(mockRuntime);
+
+    await expect(service.dryRun('process-123', 'balance')).rejects.toMatchObject({
+      code: AOErrorCode.TIMEOUT,
+      details: { operation: 'Dry run on process process-123', timeout: 10 }
+    });
+  });
+
+  it('should let a per-call timeout override the default', async () => {
+    aoResult.mockImplementationOnce(() => new Promise(() => {}));
+    service = new AOService(mockRuntime, { defaultTimeout: 60000 });
+    await service.initialize(mockRuntime);
+
+    await expect(service.readResult('process-123', 'message-123', { timeout: 10, retry: false })).rejects.toMatchObject({
+      code: AOErrorCode.TIMEOUT,
+      details: expect.objectContaining({ timeout: 10 })
+    });
+  });
+
+  it('should cancel an operation when the signal aborts', async () => {
+    aoDryrun.mockImplementationOnce(() => new Promise(() => {}));
+    service = new AOService(mockRuntime);
+    await service.initialize(mockRuntime);
+
+    const controller = new AbortController();
+    const pending = service.dryRun('process-123', 'balance', undefined, undefined, { signal: controller.signal });
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({
+      code: AOErrorCode.TIMEOUT,
+      details: expect.objectContaining({ cancelled: true })
+    });
+  });
+
+  it('should describe a process and cache the description', async () => {
+    aoDryrun.mockResolvedValueOnce({
+      Output: {},
+      Messages: [{ Target: 'agent', Tags: [{ name: 'Name', value: 'Counter' }, { name: 'Handlers', value: 'Increment,Count' }] }],
+      Spawns: []
+    });
+    service = new AOService(mockRuntime);
+    await service.initialize(mockRuntime);
+    aoDryrun.mockClear();
+
+    const first = await service.describeProcess('process-123');
+    const second = await service.describeProcess('process-123');
+
+    expect(aoDryrun).toHaveBeenCalledTimes(1);
+    expect(aoDryrun).toHaveBeenCalledWith(expect.objectContaining({ tags: [{ name: 'Action', value: 'Info' }] }));
+    expect(second).toBe(first);
+    expect(first.handlers.map(handler => handler.action)).toEqual(['Increment', 'Count', 'Info']);
+  });
+
+  describe('token client', () => {
+    const tokenInfo = {
+      Output: {},
+      Messages: [
+        {
+          Target: 'agent',
+          Tags: [
+            { name: 'Name', value: 'Test Token' },
+            { name: 'Ticker', value: 'TKN' },
+            { name: 'Denomination', value: '12' },
+            { name: 'Logo', value: 'logo-tx' }
+          ]
+        }
+      ],
+      Spawns: []
+    };
+
+    beforeEach(async () => {
+      service = new AOService(mockRuntime, { wallet: testJwk });
+      await service.initialize(mockRuntime);
+    });
+
+    it('should read token info and scale balances by the denomination', async () => {
+      aoDryrun
+        .mockResolvedValueOnce(tokenInfo)
+        .mockResolvedValueOnce({
+          Output: {},
+          Messages: [{ Target: 'agent', Data: '1500000000000', Tags: [{ name: 'Balance', value: '1500000000000' }] }],
+          Spawns: []
+        });
+
+      const token = service.getTokenClient('token-123');
+      const balance = await token.getBalance('wallet-abc');
+
+      expect(await token.getTokenInfo()).toEqual({
+        process: 'token-123',
+        name: 'Test Token',
+        ticker: 'TKN',
+        denomination: 12,
+        logo: 'logo-tx'
+      });
+      expect(balance).toEqual({
+        process: 'token-123',
+        account: 'wallet-abc',
+        quantity: '1500000000000',
+        amount: '1.5',
+        ticker: 'TKN',
+        denomination: 12
+      });
+      expect(aoDryrun).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          tags: [
+            { name: 'Action', value: 'Balance' },
+            { name: 'Target', value: 'wallet-abc' }
+          ]
+        })
+      );
+    });
+
+    it('should reject balances that are not integers in base units', async () => {
+      aoDryrun
+        .mockResolvedValueOnce(tokenInfo)
+        .mockResolvedValueOnce({ Output: {}, Messages: [{ Target: 'agent', Tags: [{ name: 'Balance', value: '1.5' }] }], Spawns: [] })
+        .mockResolvedValueOnce({ Output: {}, Messages: [{ Target: 'agent', Data: JSON.stringify({ 'wallet-abc': '' }) }], Spawns: [] });
+      const token = service.getTokenClient('token-123');
+
+      await expect(token.getBalance('wallet-abc')).rejects.toMatchObject({
+        code: AOErrorCode.PROTOCOL_ERROR,
+        message: 'Process token-123 returned an invalid balance "1.5" for wallet-abc'
+      });
+      await expect(token.getBalances()).rejects.toMatchObject({
+        code: AOErrorCode.PROTOCOL_ERROR,
+        message: 'Process token-123 returned an invalid balance "" for wallet-abc'
+      });
+    });
+
+    it('should transfer a denominated quantity and detect notices', async () => {
+      aoDryrun.mockResolvedValueOnce(tokenInfo);
+      aoResult.mockResolvedValueOnce({
+        Output: {},
+        Messages: [
+          { Target: getWalletAddress(testJwk), Tags: [{ name: 'Action', value: 'Debit-Notice' }] },
+          { Target: 'recipient-abc', Tags: [{ name: 'Action', value: 'Credit-Notice' }] }
+        ],
+        Spawns: []
+      });
+
+      const transfer = await service.getTokenClient('token-123').transfer('recipient-abc', '0.25');
+
+      expect(aoMessage).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          process: 'token-123',
+          tags: [
+            { name: 'Action', value: 'Transfer' },
+            { name: 'Recipient', value: 'recipient-abc' },
+            { name: 'Quantity', value: '250000000000' }
+          ]
+        })
+      );
+      expect(transfer).toMatchObject({ quantity: '250000000000', debitNotice: true, creditNotice: true });
+    });
+
+    it('should report a Transfer-Error as insufficient balance', async () => {
+      aoResult.mockResolvedValueOnce({
+        Output: {},
+        Messages: [
+          {
+            Target: getWalletAddress(testJwk),
+            Tags: [
+              { name: 'Action', value: 'Transfer-Error' },
+              { name: 'Error', value: 'Insufficient Balance!' }
+            ]
+          }
+        ],
+        Spawns: []
+      });
+
+      await expect(
+        service.getTokenClient('token-123').transfer('recipient-abc', '100', { raw: true })
+      ).rejects.toMatchObject({ code: AOErrorCode.INSUFFICIENT_BALANCE });
+    });
+
+    it('should reject amounts with more decimals than the denomination', async () => {
+      aoDryrun.mockResolvedValueOnce({
+        ...tokenInfo,
+        Messages: [{ Target: 'agent', Tags: [{ name: 'Ticker', value: 'TKN' }, { name: 'Denomination', value: '2' }] }]
+      });
+
+      await expect(
+        service.getTokenClient('token-123').transfer('recipient-abc', '1.005')
+      ).rejects.toMatchObject({ code: AOErrorCode.VALIDATION_ERROR });
+    });
+  });
+
+  it('should log sent messages and their result status', async () => {
+    cache.clear();
+    aoResult.mockResolvedValueOnce({ Output: {}, Messages: [], Spawns: [], Error: 'boom' });
+    service = new AOService(mockRuntime, { wallet: testJwk });
+    await service.initialize(mockRuntime);
+    const log = new AOMessageLog(mockRuntime);
+
+    await service.sendMessage('process-123', 'ping', [{ name: 'Action', value: 'Ping' }]);
+
+    expect(await log.outstanding()).toEqual([
+      expect.objectContaining({
+        messageId: 'message-123',
+        process: 'process-123',
+        tags: [{ name: 'Action', value: 'Ping' }],
+        dataHash: createHash('sha256').update('ping').digest('hex'),
+        status: 'pending'
+      })
+    ]);
+
+    await service.readResult('process-123', 'message-123');
+
+    expect(await log.outstanding()).toEqual([]);
+    expect(await log.latest('process-123')).toMatchObject({ status: 'failed', readAt: expect.any(Number) });
+  });
+
+  it('should match logged messages by process, since mainnet slots repeat', async () => {
+    cache.clear();
+    const log = new AOMessageLog(mockRuntime);
+    await log.record('process-a', '7', 'ping');
+    await log.record('process-b', '7', 'ping');
+
+    expect(await log.markRead('process-b', '7', false)).toBe(true);
+    expect(await log.markRead('process-c', '7', false)).toBe(false);
+
+    expect(await log.latest('process-a')).toMatchObject({ status: 'pending' });
+    expect(await log.latest('process-b')).toMatchObject({ status: 'succeeded' });
+  });
+
+  it('should keep every entry when messages are logged concurrently', async () => {
+    cache.clear();
+    const log = new AOMessageLog(mockRuntime);
+    await log.record('process-a', 'message-1', 'ping');
+
+    await Promise.all([
+      log.record('process-a', 'message-2', 'ping'),
+      new AOMessageLog(mockRuntime).record('process-b', 'message-3', 'ping'),
+      log.markRead('process-a', 'message-1', false)
+    ]);
+
+    expect((await log.list()).map(entry => [entry.messageId, entry.status]).sort()).toEqual([
+      ['message-1', 'succeeded'],
+      ['message-2', 'pending'],
+      ['message-3', 'pending']
+    ]);
+  });
+
+  describe('transaction events', () => {
+    const pingTags = [{ name: 'Action', value: 'Ping' }];
+
+    beforeEach(async () => {
+      emitEvent.mockClear();
+      service = new AOService(mockRuntime, { wallet: testJwk });
+      await service.initialize(mockRuntime);
+    });
+
+    it('should emit TRANSACTION_CONFIRMED for a spawn', async () => {
+      await service.spawnProcess('module-123', 'scheduler-123', [{ name: 'Name', value: 'counter' }]);
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(AOEventType.TRANSACTION_CONFIRMED, {
+        runtime: mockRuntime,
+        source: 'ao',
+        operation: 'spawn',
+        process: 'process-123',
+        messageId: 'process-123',
+        tags: [{ name: 'Name', value: 'counter' }]
+      });
+    });
+
+    it('should emit TRANSACTION_FAILED with the error code when a spawn is rejected', async () => {
+      aoSpawn.mockRejectedValueOnce(new Error('Valid Scheduler-Location owned by abc not found'));
+
+      await expect(service.spawnProcess('module-123', 'abc')).rejects.toThrow();
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        AOEventType.TRANSACTION_FAILED,
+        expect.objectContaining({ operation: 'spawn', errorCode: AOErrorCode.SCHEDULER_ERROR, tags: [] })
+      );
+    });
+
+    it('should emit events for a sent message and its result', async () => {
+      aoResult.mockResolvedValueOnce({ Output: 'pong', Messages: [], Spawns: [] });
+
+      await service.sendAndAwaitResult('process-123', '', pingTags);
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        AOEventType.TRANSACTION_CONFIRMED,
+        expect.objectContaining({ operation: 'message', process: 'process-123', messageId: 'message-123', tags: pingTags })
+      );
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        AOEventType.TRANSACTION_CONFIRMED,
+        expect.objectContaining({ operation: 'result', messageId: 'message-123', summary: 'Output: pong' })
+      );
+    });
+
+    it('should emit TRANSACTION_FAILED when the result reports an evaluation error', async () => {
+      aoResult.mockResolvedValueOnce({ Output: {}, Messages: [], Spawns: [], Error: 'boom' });
+
+      await service.sendAndAwaitResult('process-123', '', pingTags);
+
+      expect(mockRuntime.emitEvent).toHaveBeenLastCalledWith(
+        AOEventType.TRANSACTION_FAILED,
+        expect.objectContaining({
+          operation: 'result',
+          messageId: 'message-123',
+          errorCode: AOErrorCode.EVALUATION_ERROR,
+          error: 'Process evaluation failed: boom',
+          result: expect.objectContaining({ error: 'boom' })
+        })
+      );
+    });
+
+    it('should not fail the operation when a listener throws', async () => {
+      emitEvent.mockRejectedValueOnce(new Error('listener failed'));
+
+      await expect(service.sendMessage('process-123', 'ping')).resolves.toBe('message-123');
+    });
+  });
+
+  describe('spawn presets', () => {
+    const aosModule = 'Do_Uc2Sju_ffp6Ev0AnLVdPtot15rvMjP-a9VVaA5fM';
+    const sqliteModule = 'SQLITE_MODULE_ID_00000000000000000000000000';
+    const scheduler = '_GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA';
+
+    beforeEach(async () => {
+      service = new AOService(mockRuntime, {
+        defaultModule: aosModule,
+        defaultScheduler: scheduler,
+        presets: {
+          'aos-sqlite': { module: sqliteModule },
+          token: { tags: [{ name: 'Name', value: 'token' }], sources: [{ path: 'token.lua' }] }
+        }
+      });
+      await service.initialize(mockRuntime);
+    });
+
+    it('should fall back to the default module and scheduler and add required tags', () => {
+      expect(service.resolveSpawn({ label: 'counter' })).toEqual({
+        module: aosModule,
+        scheduler,
+        tags: [
+          { name: 'Name', value: 'counter' },
+          { name: 'Authority', value: 'fcoN_xJeisVsPXA-trzVAuIiqO3ydLQxM-L4XbrQKzY' }
+        ],
+        sources: []
+      });
+    });
+
+    it('should apply a preset beneath explicit parameters', () => {
+      expect(service.resolveSpawn({ preset: 'aos-sqlite' }).module).toBe(sqliteModule);
+      expect(service.resolveSpawn({ preset: 'aos-sqlite', module: aosModule }).module).toBe(aosModule);
+
+      const token = service.resolveSpawn({ preset: 'token', tags: [{ name: 'Authority', value: 'custom-authority' }] });
+      expect(token.tags).toEqual([
+        { name: 'Name', value: 'token' },
+        { name: 'Authority', value: 'custom-authority' }
+      ]);
+      expect(token.sources).toEqual([{ path: 'token.lua' }]);
+    });
+
+    it('should reject unknown presets and missing defaults', () => {
+      expect(() => service.resolveSpawn({ preset: 'missing' })).toThrow('Unknown spawn preset "missing"');
+
+      service = new AOService(mockRuntime, {});
+      expect(() => service.resolveSpawn({})).toThrow('No module given and none configured');
+    });
+  });
+
+  describe('network profiles', () => {
+    const localScheduler = 'LOCAL_SCHEDULER_0000000000000000000000000000';
+    const localClient = {
+      dryrun: vi.fn().mockResolvedValue({ Output: 'local', Messages: [], Spawns: [] })
+    };
+
+    beforeEach(async () => {
+      connect.mockClear();
+      service = new AOService(mockRuntime, {
+        wallet: {},
+        muUrl: 'https://mu.test',
+        defaultScheduler: '_GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA',
+        networks: {
+          local: {
+            muUrl: 'http://localhost:4002',
+            cuUrl: 'http://localhost:4004',
+            graphqlUrl: 'http://localhost:4000/graphql',
+            scheduler: localScheduler
+          }
+        }
+      });
+      await service.initialize(mockRuntime);
+    });
+
+    it('should connect each network once and route calls by name', async () => {
+      connect.mockImplementationOnce(() => localClient);
+
+      expect((await service.dryRun('process-123', '', undefined, undefined, { network: 'local' })).Output).toBe('local');
+      await service.dryRun('process-123', '', undefined, undefined, { network: 'local' });
+      expect((await service.dryRun('process-123', '')).Output).toEqual({ balance: 100 });
+
+      expect(connect).toHaveBeenCalledTimes(2);
+      expect(connect).toHaveBeenNthCalledWith(1, { MODE: 'legacy', MU_URL: 'https://mu.test' });
+      expect(connect).toHaveBeenNthCalledWith(2, {
+        MODE: 'legacy',
+        GRAPHQL_URL: 'http://localhost:4000/graphql',
+        MU_URL: 'http://localhost:4002',
+        CU_URL: 'http://localhost:4004'
+      });
+      expect(localClient.dryrun).toHaveBeenCalledTimes(2);
+    });
+
+    it("should use the network's scheduler and GraphQL endpoint", async () => {
+      const fetchSpy = vi
+        .spyOn(globalThis, 'fetch')
+        .mockImplementation(async () => new Response(JSON.stringify({ data: {} }), { status: 200 }));
+
+      expect(service.resolveSpawn({ module: 'module-123', network: 'local' }).scheduler).toBe(localScheduler);
+      expect(service.resolveSpawn({ module: 'module-123' }).scheduler).toBe('_GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA');
+
+      await service.queryGraphQL('{ transactions { edges { cursor } } }', {}, { network: 'local' });
+      expect(fetchSpy.mock.calls[0][0]).toBe('http://localhost:4000/graphql');
+      fetchSpy.mockRestore();
+    });
+
+    it('should keep a token client per network', async () => {
+      const local = service.getTokenClient('token-123', 'local');
+
+      expect(service.getTokenClient('token-123', 'local')).toBe(local);
+      expect(service.getTokenClient('token-123')).not.toBe(local);
+      expect(service.getTokenClient('token-123')).toBe(service.getTokenClient('token-123', 'default'));
+      expect(local.network).toBe('local');
+    });
+
+    it('should reject unknown networks with the configured names', async () => {
+      await expect(service.sendMessage('process-123', 'hello', undefined, undefined, { network: 'mainnet' })).rejects.toMatchObject({
+        code: AOErrorCode.VALIDATION_ERROR,
+        message: 'Unknown network "mainnet"',
+        details: { networks: ['default', 'local'] }
+      });
+
+      service = new AOService(mockRuntime, { defaultNetwork: 'staging' });
+      await expect(service.initialize(mockRuntime)).rejects.toThrow('Unknown network "staging"');
+    });
+
+    it('should use the configured default network', async () => {
+      connect.mockClear();
+      service = new AOService(mockRuntime, { networks: { local: { muUrl: 'http://localhost:4002' } }, defaultNetwork: 'local' });
+      await service.initialize(mockRuntime);
+
+      expect(service.getNetwork().name).toBe('local');
+      expect(connect).toHaveBeenCalledWith({ MODE: 'legacy', MU_URL: 'http://localhost:4002' });
+    });
+  });
+
+  describe('GraphQL queries', () => {
+    const node = (id: string, timestamp?: number) => ({
+      id,
+      recipient: '',
+      owner: { address: 'owner-123' },
+      tags: [{ name: 'Name', value: id }],
+      block: timestamp ? { height: 1, timestamp } : null
+    });
+    let fetchSpy: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(async () => {
+      service = new AOService(mockRuntime, { graphqlUrl: 'https://gateway.test/graphql', retry: { maxAttempts: 1 } });
+      await service.initialize(mockRuntime);
+    });
+
+    afterEach(() => {
+      fetchSpy.mockRestore();
+    });
+
+    function mockGraphQL(body: unknown, status = 200) {
+      fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async () => new Response(JSON.stringify(body), { status }));
+    }
+
+    it('should find processes spawned by an owner with cursor pagination', async () => {
+      mockGraphQL({
+        data: {
+          transactions: {
+            pageInfo: { hasNextPage: true },
+            edges: [
+              { cursor: 'cursor-1', node: node('process-new') },
+              { cursor: 'cursor-2', node: node('process-old', 1700000000) }
+            ]
+          }
+        }
+      });
+
+      const page = await service.getGraphQLClient().findProcessesByOwner('owner-123', { first: 2, after: 'cursor-0' });
+
+      const [url, init] = fetchSpy.mock.calls[0] as [string, RequestInit];
+      const { variables } = JSON.parse(init.body as string);
+      expect(url).toBe('https://gateway.test/graphql');
+      expect(variables).toEqual({
+        owners: ['owner-123'],
+        tags: [
+          { name: 'Data-Protocol', values: ['ao'] },
+          { name: 'Type', values: ['Process'] }
+        ],
+        first: 2,
+        after: 'cursor-0'
+      });
+      expect(page).toEqual({
+        transactions: [
+          { id: 'process-new', owner: 'owner-123', recipient: undefined, tags: [{ name: 'Name', value: 'process-new' }], timestamp: undefined, height: undefined },
+          { id: 'process-old', owner: 'owner-123', recipient: undefined, tags: [{ name: 'Name', value: 'process-old' }], timestamp: 1700000000000, height: 1 }
+        ],
+        cursor: 'cursor-2',
+        hasNextPage: true
+      });
+    });
+
+    it('should drop transactions before since and stop paging past it', async () => {
+      mockGraphQL({
+        data: {
+          transactions: {
+            pageInfo: { hasNextPage: true },
+            edges: [{ cursor: 'cursor-1', node: node('process-old', 1700000000) }]
+          }
+        }
+      });
+
+      const page = await service.getGraphQLClient().findProcessesByOwner('owner-123', { since: 1800000000000 });
+
+      expect(page.transactions).toEqual([]);
+      expect(page.hasNextPage).toBe(false);
+    });
+
+    it('should query messages to a process and modules by tags', async () => {
+      mockGraphQL({ data: { transactions: { pageInfo: { hasNextPage: false }, edges: [] } } });
+      const client = service.getGraphQLClient();
+
+      await client.findMessagesToProcess('process-123');
+      await client.findModules([{ name: 'Module-Format', value: 'wasm64-unknown-emscripten-draft_2024_02_15' }]);
+
+      const [messages, modules] = fetchSpy.mock.calls.map(call => JSON.parse((call[1] as RequestInit).body as string).variables);
+      expect(messages).toMatchObject({ recipients: ['process-123'], tags: [{ name: 'Data-Protocol' }, { name: 'Type', values: ['Message'] }] });
+      expect(modules.tags).toEqual([
+        { name: 'Data-Protocol', values: ['ao'] },
+        { name: 'Type', values: ['Module'] },
+        { name: 'Module-Format', values: ['wasm64-unknown-emscripten-draft_2024_02_15'] }
+      ]);
+    });
+
+    describe('spawn target validation', () => {
+      const moduleId = 'Do_Uc2Sju_ffp6Ev0AnLVdPtot15rvMjP-a9VVaA5fM';
+      const schedulerId = '_GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA';
+
+      function mockGateway(moduleTags: { name: string; value: string }[] | null, locationTags: { name: string; value: string }[] | null) {
+        fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (_url, init) => {
+          const { variables } = JSON.parse((init as RequestInit).body as string);
+          const tags = variables.ids ? moduleTags : locationTags;
+          const edges = tags ? [{ cursor: 'cursor-1', node: { ...node('tx'), tags } }] : [];
+          return new Response(JSON.stringify({ data: { transactions: { pageInfo: { hasNextPage: false }, edges } } }));
+        });
+      }
+
+      it('should return the module format and scheduler URL', async () => {
+        mockGateway(
+          [
+            { name: 'Type', value: 'Module' },
+            { name: 'Module-Format', value: 'wasm64-unknown-emscripten-draft_2024_02_15' },
+            { name: 'Memory-Limit', value: '1-gb' }
+          ],
+          [{ name: 'Url', value: 'https://su-router.ao-testnet.xyz' }]
+        );
+
+        await expect(service.validateSpawnTarget(moduleId, schedulerId)).resolves.toEqual({
+          module: { id: moduleId, format: 'wasm64-unknown-emscripten-draft_2024_02_15', memoryLimit: '1-gb' },
+          scheduler: { address: schedulerId, url: 'https://su-router.ao-testnet.xyz' }
+        });
+      });
+
+      it('should reject malformed IDs without querying the gateway', async () => {
+        mockGateway(null, null);
+
+        await expect(service.validateSpawnTarget('module-123', schedulerId)).rejects.toMatchObject({
+          code: AOErrorCode.VALIDATION_ERROR,
+          details: { problems: ['Module ID "module-123" is not a 43-character base64url Arweave ID'] }
+        });
+        expect(fetchSpy).not.toHaveBeenCalled();
+      });
+
+      it('should report every problem with the module and scheduler', async () => {
+        mockGateway([{ name: 'Type', value: 'Message' }], null);
+
+        await expect(service.validateSpawnTarget(moduleId, schedulerId)).rejects.toMatchObject({
+          code: AOErrorCode.VALIDATION_ERROR,
+          details: {
+            problems: [
+              `Transaction ${moduleId} is not an AO module (Type: Message)`,
+              `Scheduler ${schedulerId} has not published a Scheduler-Location record`
+            ]
+          }
+        });
+      });
+    });
+
+    it('should report GraphQL errors and HTTP failures', async () => {
+      mockGraphQL({ errors: [{ message: 'Unknown argument "foo"' }] });
+      await expect(service.queryGraphQL('{ foo }')).rejects.toMatchObject({
+        code: AOErrorCode.PROTOCOL_ERROR,
+        message: 'GraphQL query failed: Unknown argument "foo"'
+      });
+      fetchSpy.mockRestore();
+
+      mockGraphQL({}, 429);
+      await expect(service.queryGraphQL('{ foo }')).rejects.toMatchObject({ code: AOErrorCode.RATE_LIMITED });
+    });
+  });
+
+  describe('process results', () => {
+    const edge = (cursor: string, messages: unknown[]) => ({
+      cursor,
+      node: { Output: {}, Messages: messages, Spawns: [] }
+    });
+
+    beforeEach(async () => {
+      cache.clear();
+      aoResults.mockReset();
+      createMemory.mockClear();
+      emitEvent.mockClear();
+      service = new AOService(mockRuntime, { wallet: testJwk });
+      await service.initialize(mockRuntime);
+    });
+
+    it('should list results with cursors', async () => {
+      aoResults.mockResolvedValueOnce({ edges: [edge('cursor-1', [])], pageInfo: { hasNextPage: true } });
+
+      const page = await service.listResults('process-123', { from: 'cursor-0', limit: 1 });
+
+      expect(aoResults).toHaveBeenCalledWith({ process: 'process-123', from: 'cursor-0', to: undefined, sort: 'ASC', limit: 1 });
+      expect(page).toEqual({
+        edges: [{ cursor: 'cursor-1', result: { Output: {}, Messages: [], Spawns: [] } }],
+        hasNextPage: true
+      });
+    });
+
+    it('should start monitoring a process at its latest result', async () => {
+      aoResults.mockResolvedValueOnce({ edges: [edge('cursor-5', [])], pageInfo: { hasNextPage: true } });
+      const monitor = service.getMonitor();
+      monitor.watch('process-123');
+
+      expect(await monitor.poll()).toEqual([]);
+      expect(aoResults).toHaveBeenCalledWith(expect.objectContaining({ sort: 'DESC', limit: 1 }));
+      expect(cache.get('ao/monitor/agent-123')).toEqual({ 'process-123': 'cursor-5' });
+      expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    });
+
+    it('should pass new messages for the agent wallet to the agent and emit them as events', async () => {
+      const address = getWalletAddress(testJwk);
+      cache.set('ao/monitor/agent-123', { 'process-123': 'cursor-5' });
+      aoResults.mockResolvedValueOnce({
+        edges: [
+          edge('cursor-6', [
+            {
+              Target: address,
+              Tags: [
+                { name: 'Action', value: 'Credit-Notice' },
+                { name: 'Quantity', value: '100' }
+              ]
+            },
+            { Target: 'someone-else', Tags: [{ name: 'Action', value: 'Debit-Notice' }] }
+          ])
+        ],
+        pageInfo: { hasNextPage: false }
+      });
+      const monitor = service.getMonitor();
+      monitor.watch('process-123');
+
+      const received = await monitor.poll();
+
+      expect(aoResults).toHaveBeenCalledWith(expect.objectContaining({ from: 'cursor-5', sort: 'ASC' }));
+      expect(received).toHaveLength(1);
+      expect(received[0]).toMatchObject({ process: 'process-123', cursor: 'cursor-6', message: { action: 'Credit-Notice' } });
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        EventType.MESSAGE_RECEIVED,
+        expect.objectContaining({
+          source: 'ao',
+          message: expect.objectContaining({
+            content: expect.objectContaining({
+              text: 'Credit-Notice from process process-123 [Quantity=100]',
+              source: 'ao'
+            })
+          }),
+          callback: expect.any(Function)
+        })
+      );
+      const { message, callback } = emitEvent.mock.calls[0][1] as MessagePayload;
+      await callback?.({ text: 'Thanks for the tokens' });
+      expect(mockRuntime.createMemory).toHaveBeenCalledWith(
+        expect.objectContaining({
+          entityId: 'agent-123',
+          roomId: message.roomId,
+          content: { text: 'Thanks for the tokens', source: 'ao', inReplyTo: message.id }
+        }),
+        'messages'
+      );
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        AOEventType.MESSAGE_RECEIVED,
+        expect.objectContaining({ process: 'process-123', cursor: 'cursor-6' })
+      );
+      expect(cache.get('ao/monitor/agent-123')).toEqual({ 'process-123': 'cursor-6' });
+    });
+
+    it('should keep the cursor when reading results fails', async () => {
+      cache.set('ao/monitor/agent-123', { 'process-123': 'cursor-5' });
+      aoResults.mockRejectedValue(new Error('500: CU unavailable'));
+      service = new AOService(mockRuntime, { wallet: testJwk, retry: { maxAttempts: 1 } });
+      await service.initialize(mockRuntime);
+      const monitor = service.getMonitor();
+      monitor.watch('process-123');
+
+      expect(await monitor.poll()).toEqual([]);
+      expect(cache.get('ao/monitor/agent-123')).toEqual({ 'process-123': 'cursor-5' });
+    });
+  });
+
+  describe('process registry', () => {
+    const createRegistry = () => {
+      const cache = new Map<string, unknown>();
+      const runtime = {
+        agentId: 'agent-123',
+        getCache: vi.fn(async (key: string) => cache.get(key)),
+        setCache: vi.fn(async (key: string, value: unknown) => {
+          cache.set(key, value);
+          return true;
+        })
+      } as unknown as IAgentRuntime;
+      return { cache, registry: new AOProcessRegistry(runtime) };
+    };
+
+    it('should persist processes in the agent cache', async () => {
+      const { cache, registry } = createRegistry();
+
+      await registry.register({ processId: 'process-123', labels: ['counter'], module: 'module-123', source: 'spawned' });
+
+      expect(cache.get('ao/processes/agent-123')).toEqual([
+        expect.objectContaining({ processId: 'process-123', labels: ['counter'], module: 'module-123', source: 'spawned' })
+      ]);
+    });
+
+    it('should merge labels and keep spawn details when re-registered', async () => {
+      const { registry } = createRegistry();
+
+      await registry.register({ processId: 'process-123', labels: ['counter'], module: 'module-123', source: 'spawned' });
+      const merged = await registry.register({ processId: 'process-123', labels: ['Counter', 'tally'] });
+
+      expect(merged).toMatchObject({ labels: ['counter', 'tally'], module: 'module-123', source: 'spawned' });
+      expect(await registry.list()).toHaveLength(1);
+    });
+
+    it('should resolve labels used in conversation', async () => {
+      const { registry } = createRegistry();
+      await registry.register({ processId: 'process-123', labels: ['counter'] });
+
+      expect((await registry.resolve('my counter process'))?.processId).toBe('process-123');
+      expect((await registry.resolve('process-123'))?.processId).toBe('process-123');
+      expect(await registry.resolve('token')).toBeUndefined();
+    });
+
+    it('should remove processes', async () => {
+      const { registry } = createRegistry();
+      await registry.register({ processId: 'process-123', labels: ['counter'] });
+
+      expect(await registry.remove('process-123')).toBe(true);
+      expect(await registry.remove('process-123')).toBe(false);
+      expect(await registry.list()).toEqual([]);
+    });
+
+    it('should keep every process registered concurrently', async () => {
+      const { registry } = createRegistry();
+      await registry.register({ processId: 'process-123', labels: ['counter'] });
+
+      await Promise.all([
+        registry.register({ processId: 'process-456', labels: ['token'] }),
+        registry.register({ processId: 'process-789', labels: ['chat'] }),
+        registry.remove('process-123')
+      ]);
+
+      expect((await registry.list()).map(known => known.processId).sort()).toEqual(['process-456', 'process-789']);
+    });
+  });
+
+  describe('retry policy', () => {
+    const fastRetry = { baseDelay: 1, jitter: 0 };
+
+    it('should retry dry runs on transient CU failures', async () => {
+      aoDryrun.mockClear();
+      aoDryrun
+        .mockRejectedValueOnce(new Error('503: Service Unavailable'))
+        .mockRejectedValueOnce(Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' }));
+      service = new AOService(mockRuntime, { retry: fastRetry });
+      await service.initialize(mockRuntime);
+
+      const result = await service.dryRun('process-123', 'balance');
+
+      expect(result.Output).toEqual({ balance: 100 });
+      expect(aoDryrun).toHaveBeenCalledTimes(3);
+    });
+
+    it('should record attempts when retries are exhausted', async () => {
+      aoResult.mockRejectedValueOnce(new Error('502: Bad Gateway'))
+        .mockRejectedValueOnce(new Error('502: Bad Gateway'));
+      service = new AOService(mockRuntime, { retry: { ...fastRetry, maxAttempts: 2 } });
+      await service.initialize(mockRuntime);
+
+      await expect(service.readResult('process-123', 'message-123')).rejects.toMatchObject({
+        code: AOErrorCode.NETWORK_ERROR,
+        details: { originalError: '502: Bad Gateway', attempts: 2 }
+      });
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      aoDryrun.mockClear();
+      aoDryrun.mockRejectedValueOnce(new Error('400: Bad Request'));
+      service = new AOService(mockRuntime, { retry: fastRetry });
+      await service.initialize(mockRuntime);
+
+      await expect(service.dryRun('process-123', 'balance')).rejects.toThrow('400: Bad Request');
+      expect(aoDryrun).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only retry messages that carry an anchor', async () => {
+      service = new AOService(mockRuntime, { wallet: testJwk, retry: fastRetry });
+      await service.initialize(mockRuntime);
+
+      aoMessage.mockClear();
+      aoMessage.mockRejectedValueOnce(new Error('503: Service Unavailable'));
+      await expect(service.sendMessage('process-123', 'test data')).rejects.toMatchObject({
+        details: { attempts: 1 }
+      });
+      expect(aoMessage).toHaveBeenCalledTimes(1);
+
+      aoMessage.mockClear();
+      aoMessage.mockRejectedValueOnce(new Error('503: Service Unavailable'));
+      await expect(service.sendMessage('process-123', 'test data', undefined, 'anchor-1')).resolves.toBe('message-123');
+      expect(aoMessage).toHaveBeenCalledTimes(2);
+    });
+
+    it('should back off exponentially with bounded jitter', () => {
+      const policy = { ...DEFAULT_RETRY_POLICY, baseDelay: 100, maxDelay: 1000, jitter: 0.5 };
+
+      expect(getRetryDelay(1, policy, () => 0.5)).toBe(100);
+      expect(getRetryDelay(3, policy, () => 0.5)).toBe(400);
+      expect(getRetryDelay(10, policy, () => 0.5)).toBe(1000);
+      expect(getRetryDelay(1, policy, () => 0)).toBe(50);
+      expect(getRetryDelay(1, policy, () => 0.999)).toBeLessThanOrEqual(150);
+    });
+  });
 });
@@ -0,0 +1,276 @@
+import { describe, expect, it } from 'vitest';
+import { AOError, AOErrorCode, classifyAOError, findLuaError, getAOResultError, handleAOError } from '../utils/errors';
+import {
+  decodeAOResult,
+  formatAOResult,
+  formatProcessDescription,
+  formatTokenAmount,
+  parseTokenAmount
+} from '../utils/format';
+import { parseProcessInfo } from '../utils/introspection';
+
+describe('AO Utils', () => {
+  describe('classifyAOError', () => {
+    it('should pass AOErrors through unchanged', () => {
+      const error = new AOError(AOErrorCode.CONFIGURATION_ERROR, 'No wallet');
+
+      expect(classifyAOError(error)).toBe(error);
+    });
+
+    it('should classify aoconnect HTTP errors by status', () => {
+      expect(classifyAOError(new Error('404: Process not found')).code).toBe(AOErrorCode.PROCESS_NOT_FOUND);
+      expect(classifyAOError(new Error('429: Too Many Requests')).code).toBe(AOErrorCode.RATE_LIMITED);
+      expect(classifyAOError(new Error('403: Forbidden')).code).toBe(AOErrorCode.UNAUTHORIZED);
+      expect(classifyAOError(new Error('504: Gateway Timeout')).code).toBe(AOErrorCode.TIMEOUT);
+      expect(classifyAOError(new Error('503: Service Unavailable')).code).toBe(AOErrorCode.NETWORK_ERROR);
+      expect(classifyAOError(new Error('413: Payload Too Large')).code).toBe(AOErrorCode.TRANSACTION_FAILED);
+    });
+
+    it('should record the HTTP status and original message', () => {
+      const error = classifyAOError(new Error('429: slow down'));
+
+      expect(error.details).toEqual({ originalError: '429: slow down', status: 429 });
+      expect(error.suggestions?.length).toBeGreaterThan(0);
+    });
+
+    it('should classify fetch and connection failures as network errors', () => {
+      const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      const fetchFailed = new TypeError('fetch failed', { cause: { code: 'ENOTFOUND' } });
+
+      expect(classifyAOError(reset).code).toBe(AOErrorCode.NETWORK_ERROR);
+      expect(classifyAOError(fetchFailed).code).toBe(AOErrorCode.NETWORK_ERROR);
+      expect(classifyAOError(new Error('Error while communicating with MU: {}')).code).toBe(AOErrorCode.NETWORK_ERROR);
+    });
+
+    it('should classify aborted requests as timeouts', () => {
+      const abort = new Error('The operation was aborted');
+      abort.name = 'AbortError';
+
+      expect(classifyAOError(abort).code).toBe(AOErrorCode.TIMEOUT);
+    });
+
+    it('should classify scheduler rejections', () => {
+      const invalidLocation = new Error('No "Url" tag found on Scheduler-Location');
+      invalidLocation.name = 'InvalidSchedulerLocation';
+
+      expect(classifyAOError(invalidLocation).code).toBe(AOErrorCode.SCHEDULER_ERROR);
+      expect(classifyAOError(new Error('Valid Scheduler-Location owned by abc not found')).code).toBe(
+        AOErrorCode.SCHEDULER_ERROR
+      );
+    });
+
+    it('should classify processes missing from the gateway', () => {
+      const notFound = new Error('Process abc was not found on gateway');
+      notFound.name = 'TransactionNotFound';
+
+      expect(classifyAOError(notFound).code).toBe(AOErrorCode.PROCESS_NOT_FOUND);
+    });
+
+    it('should not treat words in the message as a classification', () => {
+      expect(classifyAOError(new Error('network of processes reverted')).code).toBe(AOErrorCode.PROTOCOL_ERROR);
+    });
+  });
+
+  describe('getAOResultError', () => {
+    it('should report CU evaluation errors', () => {
+      const error = getAOResultError({
+        Output: {},
+        Messages: [],
+        Spawns: [],
+        Error: 'attempt to index a nil value'
+      });
+
+      expect(error?.code).toBe(AOErrorCode.EVALUATION_ERROR);
+      expect(error?.details).toEqual({ originalError: 'attempt to index a nil value' });
+    });
+
+    it('should report Lua errors printed to the output', () => {
+      const error = getAOResultError({
+        Output: { data: '\u001b[31m[string "aos"]:3: attempt to call a nil value\u001b[0m\nstack traceback:\n\t[C]: in ?' },
+        Messages: [],
+        Spawns: []
+      });
+
+      expect(error?.code).toBe(AOErrorCode.EVALUATION_ERROR);
+      expect(error?.details.originalError).toBe('[string "aos"]:3: attempt to call a nil value');
+    });
+
+    it('should return undefined for successful results', () => {
+      expect(getAOResultError({ Output: {}, Messages: [], Spawns: [], Error: null })).toBeUndefined();
+      expect(getAOResultError({ Output: {}, Messages: [], Spawns: [] })).toBeUndefined();
+    });
+  });
+
+  describe('findLuaError', () => {
+    it('should find the line before a stack traceback', () => {
+      expect(findLuaError('Handler failed: boom\nstack traceback:\n\t[C]: in ?')).toBe('Handler failed: boom');
+    });
+
+    it('should ignore ordinary output', () => {
+      expect(findLuaError('Balance: 100')).toBeUndefined();
+      expect(findLuaError(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('handleAOError', () => {
+    it('should return a response for unknown errors', () => {
+      expect(handleAOError('boom')).toEqual({
+        code: AOErrorCode.PROTOCOL_ERROR,
+        message: 'An unexpected error occurred',
+        details: { originalError: 'boom' },
+        suggestions: ['Please try again', 'Contact support if the issue persists']
+      });
+    });
+  });
+
+  describe('decodeAOResult', () => {
+    const result = {
+      Output: { data: '\u001b[32mTransferred 100 to bob\u001b[0m', prompt: 'aos> ' },
+      Messages: [
+        {
+          Target: 'BOB_WALLET_ADDRESS_0000000000000000000000000',
+          Data: '{"balance":"100"}',
+          Tags: [
+            { name: 'Data-Protocol', value: 'ao' },
+            { name: 'Action', value: 'Credit-Notice' },
+            { name: 'Quantity', value: '100' }
+          ]
+        }
+      ],
+      Spawns: [
+        {
+          Data: 'hello',
+          Tags: [
+            { name: 'Name', value: 'child' },
+            { name: 'Module', value: 'MODULE_ID_00000000000000000000000000000000' }
+          ]
+        }
+      ]
+    };
+
+    it('should decode output, messages and spawns', () => {
+      expect(decodeAOResult(result)).toEqual({
+        output: 'Transferred 100 to bob',
+        messages: [
+          {
+            target: 'BOB_WALLET_ADDRESS_0000000000000000000000000',
+            action: 'Credit-Notice',
+            tags: { 'Data-Protocol': 'ao', Action: 'Credit-Notice', Quantity: '100' },
+            data: { balance: '100' }
+          }
+        ],
+        spawns: [
+          {
+            name: 'child',
+            module: 'MODULE_ID_00000000000000000000000000000000',
+            tags: { Name: 'child', Module: 'MODULE_ID_00000000000000000000000000000000' },
+            data: 'hello'
+          }
+        ],
+        error: undefined
+      });
+    });
+
+    it('should format a compact chat summary', () => {
+      expect(formatAOResult(result)).toBe(
+        [
+          'Output: Transferred 100 to bob',
+          'Messages (1):',
+          '  1. Credit-Notice -> BOB_WA...0000 [Quantity=100]',
+          '     Data: {"balance":"100"}',
+          'Spawns (1):',
+          '  1. child (module MODULE...0000)'
+        ].join('\n')
+      );
+    });
+
+    it('should report empty output', () => {
+      expect(formatAOResult({ Output: {}, Messages: [], Spawns: [] })).toBe('Output: none');
+    });
+  });
+
+  describe('token amounts', () => {
+    it('should parse whole-token amounts into base units', () => {
+      expect(parseTokenAmount('1.5', 12)).toBe(1500000000000n);
+      expect(parseTokenAmount('1,234.50 TKN', 2, 'TKN')).toBe(123450n);
+      expect(parseTokenAmount('7', 0)).toBe(7n);
+    });
+
+    it('should format base units as whole tokens', () => {
+      expect(formatTokenAmount(1500000000000n, 12, 'TKN')).toBe('1.5 TKN');
+      expect(formatTokenAmount('5', 12)).toBe('0.000000000005');
+      expect(formatTokenAmount('123450', 2)).toBe('1234.5');
+    });
+
+    it('should round-trip quantities beyond Number.MAX_SAFE_INTEGER exactly', () => {
+      const quantity = '123456789012345678901234567890';
+
+      expect(parseTokenAmount(formatTokenAmount(quantity, 18, 'TKN'), 18, 'TKN').toString()).toBe(quantity);
+    });
+
+    it('should reject amounts that cannot be represented exactly', () => {
+      expect(() => parseTokenAmount('1.005', 2)).toThrow('Invalid token amount: 1.005');
+      expect(() => parseTokenAmount('-1', 2)).toThrow();
+      expect(() => parseTokenAmount('abc', 2)).toThrow();
+      expect(parseTokenAmount('1.500', 2)).toBe(150n);
+    });
+
+    it('should reject quantities that are not integers in base units', () => {
+      for (const quantity of ['1.5', '', '-5', '1e3']) {
+        expect(() => formatTokenAmount(quantity, 12)).toThrow(
+          expect.objectContaining({ code: AOErrorCode.PROTOCOL_ERROR, message: `Invalid token quantity: "${quantity}"` })
+        );
+      }
+    });
+  });
+
+  describe('parseProcessInfo', () => {
+    it('should read handlers listed in the Info reply', () => {
+      const description = parseProcessInfo('process-123', {
+        Output: {},
+        Messages: [
+          {
+            Target: 'agent',
+            Data: JSON.stringify({ Handlers: ['Increment', { name: 'Set', tags: ['Value'] }], Owner: 'owner-abc' }),
+            Tags: [{ name: 'Name', value: 'Counter' }]
+          }
+        ],
+        Spawns: []
+      });
+
+      expect(description).toMatchObject({
+        name: 'Counter',
+        owner: 'owner-abc',
+        isToken: false,
+        responded: true,
+        handlers: [{ action: 'Increment' }, { action: 'Set', tags: ['Value'] }, { action: 'Info' }]
+      });
+    });
+
+    it('should infer token standard handlers from a ticker', () => {
+      const description = parseProcessInfo('token-123', {
+        Output: {},
+        Messages: [{ Target: 'agent', Tags: [{ name: 'Name', value: 'Test Token' }, { name: 'Ticker', value: 'TKN' }] }],
+        Spawns: []
+      });
+
+      expect(formatProcessDescription(description)).toBe(
+        [
+          'Process token-123 (Test Token, TKN token)',
+          'Supported actions:',
+          '- Info',
+          '- Balance (tags: Target)',
+          '- Balances',
+          '- Transfer (tags: Recipient, Quantity)'
+        ].join('\n')
+      );
+    });
+
+    it('should report processes that do not answer Info', () => {
+      const description = parseProcessInfo('process-123', { Output: {}, Messages: [], Spawns: [] });
+
+      expect(description.responded).toBe(false);
+      expect(formatProcessDescription(description)).toContain('its supported actions are unknown');
+    });
+  });
+});
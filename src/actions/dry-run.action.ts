@@ -1,9 +1,11 @@
 import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { z } from 'zod';
 import { AOService } from '../services/AOService';
-import { formatAOResult } from '../utils/format';
-import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { decodeAOResult, formatAOResult } from '../utils/format';
+import { handleAOError, getAOResultError, AOError, AOErrorCode } from '../utils/errors';
 import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { dryRunTemplate } from '../templates';
 
 /**
  * Schema for validating dry run action input
@@ -15,9 +17,15 @@ const dryRunSchema = z.object({
     name: z.string(),
     value: z.string()
   })).optional(),
-  anchor: z.string().optional()
+  anchor: z.string().optional(),
+  network: z.string().min(1).optional()
 });
 
+/**
+ * Matches natural-language requests for a dry run
+ */
+const DRY_RUN_PATTERN = /\bdry[\s-]?run\b/i;
+
 /**
  * Action to execute a dry run on an AO process
  */
@@ -31,14 +39,10 @@ export const dryRunAOAction: Action = {
         return false;
       }
       
-      // Extract JSON content if present
-      let content;
-      try {
-        content = typeof message.content.text === 'string' 
-          ? JSON.parse(message.content.text) 
-          : message.content.text;
-      } catch (error) {
-        return false;
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return DRY_RUN_PATTERN.test(message.content.text ?? '');
       }
       
       // Validate input structure
@@ -66,24 +70,54 @@ export const dryRunAOAction: Action = {
         );
       }
 
-      // Parse input
-      const input = typeof message.content.text === 'string' 
-        ? JSON.parse(message.content.text) 
-        : message.content.text;
-      
-      // Validate input
-      const validatedInput = await dryRunSchema.parseAsync(input);
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        dryRunSchema,
+        dryRunTemplate
+      );
       
       // Execute dry run
       const result = await service.dryRun(
         validatedInput.process,
         validatedInput.data,
         validatedInput.tags,
-        validatedInput.anchor
+        validatedInput.anchor,
+        { network: validatedInput.network }
       );
       
       logger.info(`Executed dry run on process: ${validatedInput.process}`);
       
+      // A result with an evaluation error means the handler failed
+      const evaluationError = getAOResultError(result);
+      if (evaluationError) {
+        const errorText = `Dry run failed to evaluate on process ${validatedInput.process}: ${evaluationError.details.originalError}`;
+        logger.warn(errorText);
+
+        if (callback) {
+          await callback({
+            text: errorText,
+            error: true
+          });
+        }
+
+        return {
+          success: false,
+          text: errorText,
+          error: evaluationError,
+          data: {
+            actionName: 'DRY_RUN_AO',
+            processId: validatedInput.process,
+            errorCode: evaluationError.code,
+            errorMessage: evaluationError.details.originalError,
+            suggestions: evaluationError.suggestions,
+            result
+          }
+        };
+      }
+      
       // Format result for display
       const resultText = `Dry run result for process ${validatedInput.process}:\n${formatAOResult(result)}`;
       
@@ -102,7 +136,8 @@ export const dryRunAOAction: Action = {
         data: {
           actionName: 'DRY_RUN_AO',
           processId: validatedInput.process,
-          result
+          result,
+          decoded: decodeAOResult(result)
         }
       };
     } catch (error) {
@@ -121,6 +156,7 @@ export const dryRunAOAction: Action = {
         error: response.details ? new Error(response.details) : new Error(response.message),
         data: {
           actionName: 'DRY_RUN_AO',
+          errorCode: response.code,
           errorMessage: response.message,
           suggestions: response.suggestions
         }
@@ -144,7 +180,22 @@ export const dryRunAOAction: Action = {
       {
         name: '{{name2}}',
         content: {
-          text: 'Dry run result for process PROCESS_ID_789:\nOutput: {"balance":100}\nMessages: 0 message(s)\nSpawns: 0 spawn(s)\nError: None',
+          text: 'Dry run result for process PROCESS_ID_789:\nOutput: {"balance":100}',
+          action: 'DRY_RUN_AO'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Execute dry run with data "balance" on process PROCESS_ID_789'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Dry run result for process PROCESS_ID_789:\nOutput: {"balance":100}',
           action: 'DRY_RUN_AO'
         }
       }
@@ -0,0 +1,188 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { z } from 'zod';
+import { AOService } from '../services/AOService';
+import { decodeAOResult, formatAOResult } from '../utils/format';
+import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { evalLuaTemplate } from '../templates';
+
+/**
+ * Schema for validating eval Lua action input
+ */
+const evalLuaSchema = z.object({
+  process: z.string().min(1, 'Process ID is required'),
+  code: z.string().min(1, 'Lua code is required'),
+  network: z.string().min(1).optional()
+});
+
+/**
+ * Matches natural-language requests for evaluating Lua in a process
+ */
+const EVAL_LUA_PATTERN = /\b(eval|evaluate|load|run)\b[\s\S]*\blua\b/i;
+
+/**
+ * Action to evaluate Lua code in an AO process
+ */
+export const evalAOLuaAction: Action = {
+  name: 'EVAL_AO_LUA',
+  description: 'Evaluate Lua code in an AO process with an Eval message, e.g. to load handlers',
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service || !service.isInitialized()) {
+        return false;
+      }
+      
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return EVAL_LUA_PATTERN.test(message.content.text ?? '');
+      }
+      
+      // Validate input structure
+      await evalLuaSchema.parseAsync(content);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service) {
+        throw new AOError(
+          AOErrorCode.SERVICE_NOT_INITIALIZED,
+          'AOService not found',
+          undefined,
+          ['Ensure the AO plugin is properly initialized']
+        );
+      }
+
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        evalLuaSchema,
+        evalLuaTemplate
+      );
+      
+      // Send progress update
+      if (callback) {
+        await callback({
+          text: `Evaluating Lua in AO process ${validatedInput.process}...`,
+          action: 'EVAL_AO_LUA'
+        });
+      }
+      
+      // Send the Eval message and wait for its result
+      const { messageId, result, error } = await service.evalLua(validatedInput.process, validatedInput.code, {
+        network: validatedInput.network
+      });
+      
+      if (error) {
+        const errorText = `Lua evaluation failed in process ${validatedInput.process}: ${error}`;
+        
+        if (callback) {
+          await callback({
+            text: errorText,
+            error: true
+          });
+        }
+        
+        return {
+          success: false,
+          text: errorText,
+          error: new AOError(AOErrorCode.EVALUATION_ERROR, errorText, { originalError: error, messageId }),
+          data: {
+            actionName: 'EVAL_AO_LUA',
+            processId: validatedInput.process,
+            messageId,
+            errorCode: AOErrorCode.EVALUATION_ERROR,
+            errorMessage: error,
+            suggestions: ['Check the Lua code for syntax errors and references to undefined globals'],
+            result
+          }
+        };
+      }
+      
+      logger.info(`Evaluated Lua in process: ${validatedInput.process} with message: ${messageId}`);
+      
+      // Return result
+      return {
+        success: true,
+        text: `Evaluated Lua in process ${validatedInput.process} (message ${messageId}):\n${formatAOResult(result)}`,
+        data: {
+          actionName: 'EVAL_AO_LUA',
+          processId: validatedInput.process,
+          messageId,
+          result,
+          decoded: decodeAOResult(result)
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to evaluate Lua in AO process: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to evaluate Lua in AO process: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'EVAL_AO_LUA',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            process: 'PROCESS_ID_789',
+            code: 'Handlers.add("Ping", "Ping", function (msg) msg.reply({ Data = "Pong" }) end)'
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Evaluated Lua in process PROCESS_ID_789 (message MESSAGE_ID_012):\nOutput: none',
+          action: 'EVAL_AO_LUA'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Eval this Lua in process PROCESS_ID_789: Counter = 0'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Evaluated Lua in process PROCESS_ID_789 (message MESSAGE_ID_012):\nOutput: none',
+          action: 'EVAL_AO_LUA'
+        }
+      }
+    ]
+  ]
+};
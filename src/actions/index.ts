@@ -2,3 +2,10 @@ export { spawnAOProcessAction } from './spawn-process.action';
 export { sendAOMessageAction } from './send-message.action';
 export { readAOResultAction } from './read-result.action';
 export { dryRunAOAction } from './dry-run.action';
+export { evalAOLuaAction } from './eval-lua.action';
+export { getAOTokenBalanceAction } from './token-balance.action';
+export { transferAOTokenAction } from './token-transfer.action';
+export { getAOProcessInfoAction } from './process-info.action';
+export { registerAOProcessAction } from './register-process.action';
+export { listAOProcessesAction } from './list-processes.action';
+export { queryAOProcessesAction } from './query-processes.action';
@@ -0,0 +1,89 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { AOService } from '../services/AOService';
+import { AOProcessRegistry } from '../services/AOProcessRegistry';
+import { formatKnownProcess } from '../utils/format';
+import { handleAOError } from '../utils/errors';
+import { parseJsonContent } from '../utils/extract';
+
+/**
+ * Matches natural-language requests for the known processes
+ */
+const LIST_PROCESSES_PATTERN = /\b(list|show|which|what)\b[\s\S]*\bprocesses\b/i;
+
+/**
+ * Action to list the AO processes the agent knows about
+ */
+export const listAOProcessesAction: Action = {
+  name: 'LIST_AO_PROCESSES',
+  description: 'List the AO processes the agent has spawned or been told about, with their labels',
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    const service = runtime.getService<AOService>('ao');
+    if (!service || !service.isInitialized()) {
+      return false;
+    }
+    
+    // Programmatic callers may send an empty JSON object
+    return parseJsonContent(message) !== undefined || LIST_PROCESSES_PATTERN.test(message.content.text ?? '');
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const processes = await new AOProcessRegistry(runtime).list();
+      
+      // Return result
+      return {
+        success: true,
+        text: processes.length
+          ? `Known AO processes:\n${processes.map(formatKnownProcess).join('\n')}`
+          : 'No AO processes are known yet. Spawn one, or tell me a process ID and a label to remember it by.',
+        data: {
+          actionName: 'LIST_AO_PROCESSES',
+          processes
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to list AO processes: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to list AO processes: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'LIST_AO_PROCESSES',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Which AO processes do you know about?'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Known AO processes:\n- counter: PROCESS_ID_789 (spawned 2025-01-01)',
+          action: 'LIST_AO_PROCESSES'
+        }
+      }
+    ]
+  ]
+};
@@ -0,0 +1,159 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { z } from 'zod';
+import { AOService } from '../services/AOService';
+import { formatProcessDescription } from '../utils/format';
+import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { processInfoTemplate } from '../templates';
+
+/**
+ * Schema for validating process info action input
+ */
+const processInfoSchema = z.object({
+  process: z.string().min(1, 'Process ID is required'),
+  refresh: z.boolean().optional(),
+  network: z.string().min(1).optional()
+});
+
+/**
+ * Matches natural-language requests for a process's supported actions
+ */
+const PROCESS_INFO_PATTERN = /\b(describe|inspect)\b[\s\S]*\bprocess\b|\bprocess\s+info\b|\b(actions|handlers)\b[\s\S]*\b(support|understand|handle|accept)s?\b/i;
+
+/**
+ * Action to discover which actions an AO process supports
+ */
+export const getAOProcessInfoAction: Action = {
+  name: 'AO_PROCESS_INFO',
+  description: 'Ask an AO process which actions it supports and which tags they expect, via an Info dry run',
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service || !service.isInitialized()) {
+        return false;
+      }
+      
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return PROCESS_INFO_PATTERN.test(message.content.text ?? '');
+      }
+      
+      // Validate input structure
+      await processInfoSchema.parseAsync(content);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service) {
+        throw new AOError(
+          AOErrorCode.SERVICE_NOT_INITIALIZED,
+          'AOService not found',
+          undefined,
+          ['Ensure the AO plugin is properly initialized']
+        );
+      }
+
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        processInfoSchema,
+        processInfoTemplate
+      );
+      
+      // Send progress update
+      if (callback) {
+        await callback({
+          text: `Asking process ${validatedInput.process} which actions it supports...`,
+          action: 'AO_PROCESS_INFO'
+        });
+      }
+      
+      const description = await service.describeProcess(validatedInput.process, {
+        refresh: validatedInput.refresh,
+        network: validatedInput.network
+      });
+      
+      logger.info(`Described AO process: ${validatedInput.process}`);
+      
+      // Return result
+      return {
+        success: true,
+        text: formatProcessDescription(description),
+        data: {
+          actionName: 'AO_PROCESS_INFO',
+          processId: validatedInput.process,
+          description
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to describe AO process: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to describe AO process: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'AO_PROCESS_INFO',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            process: 'TOKEN_PROCESS_ID'
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Process TOKEN_PROCESS_ID (Test Token, TKN token)\nSupported actions:\n- Info\n- Balance (tags: Target)\n- Balances\n- Transfer (tags: Recipient, Quantity)',
+          action: 'AO_PROCESS_INFO'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Which actions does process PROCESS_ID_789 support?'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Process PROCESS_ID_789 (Counter)\nSupported actions:\n- Info\n- Increment\n- Count',
+          action: 'AO_PROCESS_INFO'
+        }
+      }
+    ]
+  ]
+};
@@ -0,0 +1,186 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { z } from 'zod';
+import { AOService } from '../services/AOService';
+import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { formatSpawnedProcess } from '../utils/format';
+import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { queryProcessesTemplate } from '../templates';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Schema for validating query processes action input
+ */
+const queryProcessesSchema = z.object({
+  owner: z.string().min(1).optional(),
+  days: z.number().positive().optional(),
+  limit: z.number().int().min(1).max(100).optional(),
+  cursor: z.string().min(1).optional(),
+  network: z.string().min(1).optional()
+});
+
+/**
+ * Matches natural-language questions about spawned processes
+ */
+const QUERY_PROCESSES_PATTERN = /\b(spawned|created|deployed)\b[\s\S]*\bprocess(es)?\b|\bprocess(es)?\b[\s\S]*\b(spawned|created|deployed)\b/i;
+
+/**
+ * Action to find the processes a wallet has spawned through Arweave GraphQL
+ */
+export const queryAOProcessesAction: Action = {
+  name: 'AO_QUERY_PROCESSES',
+  description: "Find the AO processes a wallet has spawned, optionally within the last N days; defaults to the agent's wallet",
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service || !service.isInitialized()) {
+        return false;
+      }
+      
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return QUERY_PROCESSES_PATTERN.test(message.content.text ?? '');
+      }
+      
+      // Validate input structure
+      await queryProcessesSchema.parseAsync(content);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service) {
+        throw new AOError(
+          AOErrorCode.SERVICE_NOT_INITIALIZED,
+          'AOService not found',
+          undefined,
+          ['Ensure the AO plugin is properly initialized']
+        );
+      }
+
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        queryProcessesSchema,
+        queryProcessesTemplate
+      );
+      
+      const owner = validatedInput.owner ?? service.getAddress();
+      if (!owner) {
+        throw new AOError(
+          AOErrorCode.CONFIGURATION_ERROR,
+          'No owner given and no wallet configured',
+          undefined,
+          ['Pass the wallet address to look up, or set AO_WALLET_JWK or AO_WALLET_PATH']
+        );
+      }
+      
+      // Send progress update
+      if (callback) {
+        await callback({
+          text: `Searching for processes spawned by ${owner}...`,
+          action: 'AO_QUERY_PROCESSES'
+        });
+      }
+      
+      const page = await service.getGraphQLClient().findProcessesByOwner(owner, {
+        first: validatedInput.limit,
+        after: validatedInput.cursor,
+        since: validatedInput.days ? Date.now() - validatedInput.days * DAY : undefined,
+        network: validatedInput.network
+      });
+      
+      logger.info(`Found ${page.transactions.length} process(es) spawned by ${owner}`);
+      
+      const period = validatedInput.days ? ` in the last ${validatedInput.days} day(s)` : '';
+      const lines = page.transactions.length
+        ? [`Processes spawned by ${owner}${period}:`, ...page.transactions.map(formatSpawnedProcess)]
+        : [`No processes spawned by ${owner}${period} were found.`];
+      if (page.hasNextPage && page.cursor) {
+        lines.push(`More results are available; ask again with cursor ${page.cursor}`);
+      }
+      
+      // Return result
+      return {
+        success: true,
+        text: lines.join('\n'),
+        data: {
+          actionName: 'AO_QUERY_PROCESSES',
+          owner,
+          processes: page.transactions,
+          cursor: page.cursor,
+          hasNextPage: page.hasNextPage
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to query AO processes: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to query AO processes: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'AO_QUERY_PROCESSES',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            owner: 'WALLET_ADDRESS',
+            days: 7
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Processes spawned by WALLET_ADDRESS in the last 7 day(s):\n- counter: PROCESS_ID_789 (spawned 2025-01-14)',
+          action: 'AO_QUERY_PROCESSES'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Which processes did I spawn last week?'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Processes spawned by AGENT_WALLET_ADDRESS in the last 7 day(s):\n- counter: PROCESS_ID_789 (spawned 2025-01-14)',
+          action: 'AO_QUERY_PROCESSES'
+        }
+      }
+    ]
+  ]
+};
@@ -1,24 +1,33 @@
 import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { z } from 'zod';
 import { AOService } from '../services/AOService';
-import { formatAOResult } from '../utils/format';
-import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { AOMessageLog } from '../services/AOMessageLog';
+import { decodeAOResult, formatAOResult } from '../utils/format';
+import { handleAOError, getAOResultError, AOError, AOErrorCode } from '../utils/errors';
 import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { readResultTemplate } from '../templates';
 
 /**
  * Schema for validating read result action input
  */
 const readResultSchema = z.object({
   process: z.string().min(1, 'Process ID is required'),
-  messageId: z.string().min(1, 'Message ID is required')
+  messageId: z.string().min(1).optional(),
+  network: z.string().min(1).optional()
 });
 
+/**
+ * Matches natural-language requests for reading a message result
+ */
+const READ_RESULT_PATTERN = /\b(read|get|fetch|show|check)\b[\s\S]*\bresult\b/i;
+
 /**
  * Action to read the result of an AO message evaluation
  */
 export const readAOResultAction: Action = {
   name: 'READ_AO_RESULT',
-  description: 'Read the result of an AO message evaluation',
+  description: 'Read the result of an AO message evaluation; defaults to the last message sent to the process',
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     try {
       const service = runtime.getService<AOService>('ao');
@@ -26,14 +35,10 @@ export const readAOResultAction: Action = {
         return false;
       }
       
-      // Extract JSON content if present
-      let content;
-      try {
-        content = typeof message.content.text === 'string' 
-          ? JSON.parse(message.content.text) 
-          : message.content.text;
-      } catch (error) {
-        return false;
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return READ_RESULT_PATTERN.test(message.content.text ?? '');
       }
       
       // Validate input structure
@@ -61,29 +66,75 @@ export const readAOResultAction: Action = {
         );
       }
 
-      // Parse input
-      const input = typeof message.content.text === 'string' 
-        ? JSON.parse(message.content.text) 
-        : message.content.text;
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        readResultSchema,
+        readResultTemplate
+      );
       
-      // Validate input
-      const validatedInput = await readResultSchema.parseAsync(input);
+      // Without a message ID, read the last message the agent sent to the process
+      let messageId = validatedInput.messageId;
+      if (!messageId) {
+        const latest = await new AOMessageLog(runtime).latest(validatedInput.process);
+        if (!latest) {
+          throw new AOError(
+            AOErrorCode.VALIDATION_ERROR,
+            `No message ID given and no messages sent to process ${validatedInput.process} are recorded`,
+            { process: validatedInput.process },
+            ['Provide the message ID whose result you want to read']
+          );
+        }
+        messageId = latest.messageId;
+      }
       
       // Read result
       const result = await service.readResult(
         validatedInput.process,
-        validatedInput.messageId
+        messageId,
+        { network: validatedInput.network }
       );
       
-      logger.info(`Read result for message: ${validatedInput.messageId} from process: ${validatedInput.process}`);
+      logger.info(`Read result for message: ${messageId} from process: ${validatedInput.process}`);
+      
+      // A result with an evaluation error means the handler failed
+      const evaluationError = getAOResultError(result);
+      if (evaluationError) {
+        const errorText = `Message ${messageId} failed to evaluate on process ${validatedInput.process}: ${evaluationError.details.originalError}`;
+        logger.warn(errorText);
+
+        if (callback) {
+          await callback({
+            text: errorText,
+            error: true
+          });
+        }
+
+        return {
+          success: false,
+          text: errorText,
+          error: evaluationError,
+          data: {
+            actionName: 'READ_AO_RESULT',
+            processId: validatedInput.process,
+            messageId,
+            errorCode: evaluationError.code,
+            errorMessage: evaluationError.details.originalError,
+            suggestions: evaluationError.suggestions,
+            result
+          }
+        };
+      }
       
       // Format result for display
-      const resultText = formatAOResult(result);
+      const resultText = `Result for message ${messageId}:\n${formatAOResult(result)}`;
       
       // Send progress update
       if (callback) {
         await callback({
-          text: `Reading result for message ${validatedInput.messageId}...`,
+          text: `Reading result for message ${messageId}...`,
           action: 'READ_AO_RESULT'
         });
       }
@@ -95,8 +146,9 @@ export const readAOResultAction: Action = {
         data: {
           actionName: 'READ_AO_RESULT',
           processId: validatedInput.process,
-          messageId: validatedInput.messageId,
-          result
+          messageId,
+          result,
+          decoded: decodeAOResult(result)
         }
       };
     } catch (error) {
@@ -115,6 +167,7 @@ export const readAOResultAction: Action = {
         error: response.details ? new Error(response.details) : new Error(response.message),
         data: {
           actionName: 'READ_AO_RESULT',
+          errorCode: response.code,
           errorMessage: response.message,
           suggestions: response.suggestions
         }
@@ -135,7 +188,37 @@ export const readAOResultAction: Action = {
       {
         name: '{{name2}}',
         content: {
-          text: 'Result for message MESSAGE_ID_012:\nOutput: {"status":"success"}\nMessages: 1 message(s)\nSpawns: 0 spawn(s)\nError: None',
+          text: 'Result for message MESSAGE_ID_012:\nOutput: {"status":"success"}\nMessages (1):\n  1. Credit-Notice -> PROCES..._789 [Quantity=100]',
+          action: 'READ_AO_RESULT'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Read result for message MESSAGE_ID_012 from process PROCESS_ID_789'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Result for message MESSAGE_ID_012:\nOutput: {"status":"success"}\nMessages (1):\n  1. Credit-Notice -> PROCES..._789 [Quantity=100]',
+          action: 'READ_AO_RESULT'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Get the result of the last message I sent to PROCESS_ID_789'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Result for message MESSAGE_ID_012:\nOutput: Pong',
           action: 'READ_AO_RESULT'
         }
       }
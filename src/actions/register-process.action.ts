@@ -0,0 +1,155 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { z } from 'zod';
+import { AOService } from '../services/AOService';
+import { AOProcessRegistry } from '../services/AOProcessRegistry';
+import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { registerProcessTemplate } from '../templates';
+
+/**
+ * Schema for validating register process action input
+ */
+const registerProcessSchema = z.object({
+  process: z.string().min(1, 'Process ID is required'),
+  label: z.string().min(1, 'Label is required'),
+  module: z.string().optional(),
+  scheduler: z.string().optional()
+});
+
+/**
+ * Matches natural-language requests for remembering a process
+ */
+const REGISTER_PROCESS_PATTERN = /\b(remember|register|save|call|name|label)\b[\s\S]*\bprocess\b/i;
+
+/**
+ * Action to remember an AO process under a label
+ */
+export const registerAOProcessAction: Action = {
+  name: 'REGISTER_AO_PROCESS',
+  description: 'Remember an AO process under a label so it can be referred to by name later',
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service || !service.isInitialized()) {
+        return false;
+      }
+      
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return REGISTER_PROCESS_PATTERN.test(message.content.text ?? '');
+      }
+      
+      // Validate input structure
+      await registerProcessSchema.parseAsync(content);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service) {
+        throw new AOError(
+          AOErrorCode.SERVICE_NOT_INITIALIZED,
+          'AOService not found',
+          undefined,
+          ['Ensure the AO plugin is properly initialized']
+        );
+      }
+
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        registerProcessSchema,
+        registerProcessTemplate
+      );
+      
+      const known = await new AOProcessRegistry(runtime).register({
+        processId: validatedInput.process,
+        labels: [validatedInput.label],
+        module: validatedInput.module,
+        scheduler: validatedInput.scheduler
+      });
+      
+      logger.info(`Registered AO process: ${known.processId} as ${validatedInput.label}`);
+      
+      // Return result
+      return {
+        success: true,
+        text: `Remembered process ${known.processId} as "${validatedInput.label}" (labels: ${known.labels.join(', ')})`,
+        data: {
+          actionName: 'REGISTER_AO_PROCESS',
+          processId: known.processId,
+          process: known
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to register AO process: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to register AO process: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'REGISTER_AO_PROCESS',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            process: 'PROCESS_ID_789',
+            label: 'counter'
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Remembered process PROCESS_ID_789 as "counter" (labels: counter)',
+          action: 'REGISTER_AO_PROCESS'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Remember process PROCESS_ID_789 as my counter'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Remembered process PROCESS_ID_789 as "counter" (labels: counter)',
+          action: 'REGISTER_AO_PROCESS'
+        }
+      }
+    ]
+  ]
+};
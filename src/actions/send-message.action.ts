@@ -1,8 +1,11 @@
 import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { z } from 'zod';
 import { AOService } from '../services/AOService';
-import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { decodeAOResult, formatAOResult } from '../utils/format';
+import { handleAOError, AOError, AOErrorCode, getAOResultError } from '../utils/errors';
 import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { sendMessageTemplate } from '../templates';
 
 /**
  * Schema for validating send message action input
@@ -14,9 +17,16 @@ const sendMessageSchema = z.object({
     name: z.string(),
     value: z.string()
   })).optional(),
-  anchor: z.string().optional()
+  anchor: z.string().optional(),
+  waitForResult: z.boolean().optional(),
+  network: z.string().min(1).optional()
 });
 
+/**
+ * Matches natural-language requests for sending a message to a process
+ */
+const SEND_MESSAGE_PATTERN = /\bsend\b[\s\S]*\bprocess\b/i;
+
 /**
  * Action to send a message to an AO process
  */
@@ -30,14 +40,10 @@ export const sendAOMessageAction: Action = {
         return false;
       }
       
-      // Extract JSON content if present
-      let content;
-      try {
-        content = typeof message.content.text === 'string' 
-          ? JSON.parse(message.content.text) 
-          : message.content.text;
-      } catch (error) {
-        return false;
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return SEND_MESSAGE_PATTERN.test(message.content.text ?? '');
       }
       
       // Validate input structure
@@ -65,20 +71,84 @@ export const sendAOMessageAction: Action = {
         );
       }
 
-      // Parse input
-      const input = typeof message.content.text === 'string' 
-        ? JSON.parse(message.content.text) 
-        : message.content.text;
-      
-      // Validate input
-      const validatedInput = await sendMessageSchema.parseAsync(input);
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        sendMessageSchema,
+        sendMessageTemplate
+      );
       
+      // Send and wait for the evaluated result when requested
+      const waitForResult = validatedInput.waitForResult ?? options.waitForResult === true;
+      if (waitForResult) {
+        if (callback) {
+          await callback({
+            text: `Sending message to AO process ${validatedInput.process} and waiting for the result...`,
+            action: 'SEND_AO_MESSAGE'
+          });
+        }
+
+        const { messageId, result } = await service.sendAndAwaitResult(
+          validatedInput.process,
+          validatedInput.data,
+          validatedInput.tags,
+          validatedInput.anchor,
+          { network: validatedInput.network }
+        );
+
+        logger.info(`Sent message with ID: ${messageId} to process: ${validatedInput.process} and read its result`);
+
+        // A result with an evaluation error means the handler failed
+        const evaluationError = getAOResultError(result);
+        if (evaluationError) {
+          const errorText = `Message ${messageId} failed to evaluate on process ${validatedInput.process}: ${evaluationError.details.originalError}`;
+          logger.warn(errorText);
+
+          if (callback) {
+            await callback({
+              text: errorText,
+              error: true
+            });
+          }
+
+          return {
+            success: false,
+            text: errorText,
+            error: evaluationError,
+            data: {
+              actionName: 'SEND_AO_MESSAGE',
+              processId: validatedInput.process,
+              messageId,
+              errorCode: evaluationError.code,
+              errorMessage: evaluationError.details.originalError,
+              suggestions: evaluationError.suggestions,
+              result
+            }
+          };
+        }
+
+        return {
+          success: true,
+          text: `Sent message with ID: ${messageId} to process: ${validatedInput.process}\n${formatAOResult(result)}`,
+          data: {
+            actionName: 'SEND_AO_MESSAGE',
+            messageId,
+            processId: validatedInput.process,
+            result,
+            decoded: decodeAOResult(result)
+          }
+        };
+      }
+
       // Send message
       const messageId = await service.sendMessage(
         validatedInput.process,
         validatedInput.data,
         validatedInput.tags,
-        validatedInput.anchor
+        validatedInput.anchor,
+        { network: validatedInput.network }
       );
       
       logger.info(`Sent message with ID: ${messageId} to process: ${validatedInput.process}`);
@@ -144,6 +214,21 @@ export const sendAOMessageAction: Action = {
           action: 'SEND_AO_MESSAGE'
         }
       }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Send message "Hello AO!" to process PROCESS_ID_789'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Successfully sent message with ID: MESSAGE_ID_012 to process: PROCESS_ID_789',
+          action: 'SEND_AO_MESSAGE'
+        }
+      }
     ]
   ]
 };
@@ -1,28 +1,86 @@
 import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { z } from 'zod';
 import { AOService } from '../services/AOService';
+import { AOProcessRegistry } from '../services/AOProcessRegistry';
 import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import type { LuaLoadResult, ResolvedSpawn } from '../types';
 import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { arweaveIdSchema } from '../utils/validation';
+import { spawnProcessTemplate } from '../templates';
 
 /**
  * Schema for validating spawn process action input
  */
 const spawnProcessSchema = z.object({
-  module: z.string().min(1, 'Module ID is required'),
-  scheduler: z.string().min(1, 'Scheduler ID is required'),
+  preset: z.string().min(1).optional(),
+  module: arweaveIdSchema('Module ID').optional(),
+  scheduler: arweaveIdSchema('Scheduler ID').optional(),
   data: z.string().optional(),
+  label: z.string().min(1).optional(),
   tags: z.array(z.object({
     name: z.string(),
     value: z.string()
-  })).optional()
+  })).optional(),
+  sources: z.array(z.object({
+    path: z.string().optional(),
+    code: z.string().optional(),
+    name: z.string().optional()
+  }).refine(source => !!source.path || !!source.code, 'Each source needs a path or code')).optional(),
+  network: z.string().min(1).optional()
 });
 
+/**
+ * Matches natural-language requests for spawning a process
+ */
+const SPAWN_PROCESS_PATTERN = /\bspawn\b/i;
+
+/**
+ * Render per-source load results, one line each
+ */
+function formatLoads(loads: LuaLoadResult[], total: number): string {
+  const lines = loads.map(load =>
+    load.success ? `  - ${load.name}: loaded` : `  - ${load.name}: failed: ${load.error}`
+  );
+  if (loads.length < total) {
+    lines.push(`  - ${total - loads.length} remaining source(s) not loaded`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Record a spawned process in the registry so it can be referred to by label
+ *
+ * The process is labelled with the requested label and its Name tag. Failing
+ * to record it does not fail the spawn.
+ */
+async function rememberSpawnedProcess(
+  runtime: IAgentRuntime,
+  processId: string,
+  input: z.infer<typeof spawnProcessSchema>,
+  spawn: ResolvedSpawn
+): Promise<void> {
+  const name = input.tags?.find(tag => tag.name === 'Name')?.value;
+  try {
+    await new AOProcessRegistry(runtime).register({
+      processId,
+      labels: [input.label, name].filter((label): label is string => !!label),
+      module: spawn.module,
+      scheduler: spawn.scheduler,
+      createdAt: Date.now(),
+      source: 'spawned'
+    });
+  } catch (error) {
+    logger.warn(`Could not record spawned process ${processId}:`, error);
+  }
+}
+
 /**
  * Action to spawn a new AO process
  */
 export const spawnAOProcessAction: Action = {
   name: 'SPAWN_AO_PROCESS',
-  description: 'Spawn a new AO process with specified module and scheduler',
+  description: 'Spawn a new AO process from a named preset, a module and scheduler, or the configured defaults',
   validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
     try {
       const service = runtime.getService<AOService>('ao');
@@ -30,14 +88,10 @@ export const spawnAOProcessAction: Action = {
         return false;
       }
       
-      // Extract JSON content if present
-      let content;
-      try {
-        content = typeof message.content.text === 'string' 
-          ? JSON.parse(message.content.text) 
-          : message.content.text;
-      } catch (error) {
-        return false;
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return SPAWN_PROCESS_PATTERN.test(message.content.text ?? '');
       }
       
       // Validate input structure
@@ -65,28 +119,74 @@ export const spawnAOProcessAction: Action = {
         );
       }
 
-      // Parse input
-      const input = typeof message.content.text === 'string' 
-        ? JSON.parse(message.content.text) 
-        : message.content.text;
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        spawnProcessSchema,
+        spawnProcessTemplate
+      );
       
-      // Validate input
-      const validatedInput = await spawnProcessSchema.parseAsync(input);
+      // Apply the preset and defaults, then check the module and scheduler
+      // exist before the MU sees them
+      const spawn = service.resolveSpawn(validatedInput);
+      await service.validateSpawnTarget(spawn.module, spawn.scheduler, { network: validatedInput.network });
+      const sources = [...spawn.sources, ...(validatedInput.sources ?? [])];
       
+      // Spawn, wait for the process and load its Lua sources
+      if (sources.length) {
+        if (callback) {
+          await callback({
+            text: `Spawning AO process with module ${spawn.module} and loading ${sources.length} Lua source(s)...`,
+            action: 'SPAWN_AO_PROCESS'
+          });
+        }
+
+        const { processId, loads } = await service.spawnAndLoad(
+          spawn.module,
+          spawn.scheduler,
+          sources,
+          spawn.tags,
+          validatedInput.data,
+          { network: validatedInput.network }
+        );
+        await rememberSpawnedProcess(runtime, processId, validatedInput, spawn);
+        const success = loads.length === sources.length && loads.every(load => load.success);
+
+        logger.info(`Spawned AO process with ID: ${processId} and loaded ${loads.filter(load => load.success).length} Lua source(s)`);
+
+        return {
+          success,
+          text: `${success ? 'Successfully spawned' : 'Spawned'} AO process with ID: ${processId}\n` +
+            `${success ? 'Loaded' : 'Failed to load'} Lua sources:\n${formatLoads(loads, sources.length)}`,
+          data: {
+            actionName: 'SPAWN_AO_PROCESS',
+            processId,
+            module: spawn.module,
+            scheduler: spawn.scheduler,
+            loads,
+            ...(success ? {} : { errorCode: AOErrorCode.EVALUATION_ERROR })
+          }
+        };
+      }
+
       // Spawn process
       const processId = await service.spawnProcess(
-        validatedInput.module,
-        validatedInput.scheduler,
-        validatedInput.tags,
-        validatedInput.data
+        spawn.module,
+        spawn.scheduler,
+        spawn.tags,
+        validatedInput.data,
+        { network: validatedInput.network }
       );
       
       logger.info(`Spawned AO process with ID: ${processId}`);
+      await rememberSpawnedProcess(runtime, processId, validatedInput, spawn);
       
       // Send progress update
       if (callback) {
         await callback({
-          text: `Spawning AO process with module ${validatedInput.module}...`,
+          text: `Spawning AO process with module ${spawn.module}...`,
           action: 'SPAWN_AO_PROCESS'
         });
       }
@@ -98,8 +198,8 @@ export const spawnAOProcessAction: Action = {
         data: {
           actionName: 'SPAWN_AO_PROCESS',
           processId,
-          module: validatedInput.module,
-          scheduler: validatedInput.scheduler
+          module: spawn.module,
+          scheduler: spawn.scheduler
         }
       };
     } catch (error) {
@@ -118,6 +218,7 @@ export const spawnAOProcessAction: Action = {
         error: response.details ? new Error(response.details) : new Error(response.message),
         data: {
           actionName: 'SPAWN_AO_PROCESS',
+          errorCode: response.code,
           errorMessage: response.message,
           suggestions: response.suggestions
         }
@@ -147,6 +248,55 @@ export const spawnAOProcessAction: Action = {
           action: 'SPAWN_AO_PROCESS'
         }
       }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            module: 'MODULE_ID_123',
+            scheduler: 'SCHEDULER_ID_456',
+            sources: [{ path: './process/counter.lua' }]
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Successfully spawned AO process with ID: PROCESS_ID_789\nLoaded Lua sources:\n  - counter.lua: loaded',
+          action: 'SPAWN_AO_PROCESS'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Spawn an AO process with module MODULE_ID_123 and scheduler SCHEDULER_ID_456'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Successfully spawned AO process with ID: PROCESS_ID_789',
+          action: 'SPAWN_AO_PROCESS'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Spawn a token process called rewards'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Successfully spawned AO process with ID: PROCESS_ID_789',
+          action: 'SPAWN_AO_PROCESS'
+        }
+      }
     ]
   ]
 };
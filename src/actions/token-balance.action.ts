@@ -0,0 +1,159 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { z } from 'zod';
+import { AOService } from '../services/AOService';
+import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { formatTokenAmount } from '../utils/format';
+import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { tokenBalanceTemplate } from '../templates';
+
+/**
+ * Schema for validating token balance action input
+ */
+const tokenBalanceSchema = z.object({
+  process: z.string().min(1, 'Token process ID is required'),
+  account: z.string().min(1).optional(),
+  network: z.string().min(1).optional()
+});
+
+/**
+ * Matches natural-language requests for a token balance
+ */
+const TOKEN_BALANCE_PATTERN = /\bbalance\b/i;
+
+/**
+ * Action to check a balance on an AO token process
+ */
+export const getAOTokenBalanceAction: Action = {
+  name: 'AO_TOKEN_BALANCE',
+  description: "Check a wallet's balance on an AO token process; defaults to the agent's wallet",
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service || !service.isInitialized()) {
+        return false;
+      }
+      
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return TOKEN_BALANCE_PATTERN.test(message.content.text ?? '');
+      }
+      
+      // Validate input structure
+      await tokenBalanceSchema.parseAsync(content);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service) {
+        throw new AOError(
+          AOErrorCode.SERVICE_NOT_INITIALIZED,
+          'AOService not found',
+          undefined,
+          ['Ensure the AO plugin is properly initialized']
+        );
+      }
+
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        tokenBalanceSchema,
+        tokenBalanceTemplate
+      );
+      
+      // Send progress update
+      if (callback) {
+        await callback({
+          text: `Checking balance on token process ${validatedInput.process}...`,
+          action: 'AO_TOKEN_BALANCE'
+        });
+      }
+      
+      const balance = await service
+        .getTokenClient(validatedInput.process, validatedInput.network)
+        .getBalance(validatedInput.account);
+      
+      logger.info(`Read balance of ${balance.account} on token process: ${validatedInput.process}`);
+      
+      // Return result
+      return {
+        success: true,
+        text: `Balance of ${balance.account} on ${balance.ticker ?? validatedInput.process}: ${formatTokenAmount(balance.quantity, balance.denomination, balance.ticker)}`,
+        data: {
+          actionName: 'AO_TOKEN_BALANCE',
+          processId: validatedInput.process,
+          balance
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to check token balance: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to check token balance: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'AO_TOKEN_BALANCE',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            process: 'TOKEN_PROCESS_ID',
+            account: 'WALLET_ADDRESS'
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Balance of WALLET_ADDRESS on TKN: 1.5 TKN',
+          action: 'AO_TOKEN_BALANCE'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: "What's my balance on token TOKEN_PROCESS_ID?"
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Balance of AGENT_WALLET_ADDRESS on TKN: 1.5 TKN',
+          action: 'AO_TOKEN_BALANCE'
+        }
+      }
+    ]
+  ]
+};
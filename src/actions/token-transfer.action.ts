@@ -0,0 +1,179 @@
+import type { Action, ActionResult, HandlerCallback, IAgentRuntime, Memory, State } from '@elizaos/core';
+import { z } from 'zod';
+import { AOService } from '../services/AOService';
+import { handleAOError, AOError, AOErrorCode } from '../utils/errors';
+import { formatTokenAmount } from '../utils/format';
+import { logger } from '@elizaos/core';
+import { extractActionParams, parseJsonContent } from '../utils/extract';
+import { tokenTransferTemplate } from '../templates';
+
+/**
+ * Schema for validating token transfer action input
+ */
+const tokenTransferSchema = z.object({
+  process: z.string().min(1, 'Token process ID is required'),
+  recipient: z.string().min(1, 'Recipient is required'),
+  amount: z.string().min(1, 'Amount is required'),
+  raw: z.boolean().optional(),
+  network: z.string().min(1).optional()
+});
+
+/**
+ * Matches natural-language requests for a token transfer
+ */
+const TOKEN_TRANSFER_PATTERN = /\btransfer\b/i;
+
+/**
+ * Action to transfer tokens on an AO token process
+ */
+export const transferAOTokenAction: Action = {
+  name: 'AO_TOKEN_TRANSFER',
+  description: 'Transfer tokens from the agent wallet to a recipient on an AO token process',
+  validate: async (runtime: IAgentRuntime, message: Memory, state?: State): Promise<boolean> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service || !service.isInitialized()) {
+        return false;
+      }
+      
+      // Programmatic callers send JSON; anything else is handled conversationally
+      const content = parseJsonContent(message);
+      if (content === undefined) {
+        return TOKEN_TRANSFER_PATTERN.test(message.content.text ?? '');
+      }
+      
+      // Validate input structure
+      await tokenTransferSchema.parseAsync(content);
+      return true;
+    } catch (error) {
+      return false;
+    }
+  },
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: Record<string, unknown> = {},
+    callback?: HandlerCallback
+  ): Promise<ActionResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      if (!service) {
+        throw new AOError(
+          AOErrorCode.SERVICE_NOT_INITIALIZED,
+          'AOService not found',
+          undefined,
+          ['Ensure the AO plugin is properly initialized']
+        );
+      }
+
+      // Parse input from JSON or extract it from natural language
+      const validatedInput = await extractActionParams(
+        runtime,
+        message,
+        state,
+        tokenTransferSchema,
+        tokenTransferTemplate
+      );
+      
+      // Raw transfers skip the token info dry run, which mainnet networks do not support
+      const token = service.getTokenClient(validatedInput.process, validatedInput.network);
+      const info = validatedInput.raw ? undefined : await token.getTokenInfo();
+      const describeAmount = (amount: string) =>
+        info ? `${amount}${info.ticker ? ` ${info.ticker}` : ''}` : `${amount} base units`;
+      
+      // Send progress update
+      if (callback) {
+        await callback({
+          text: `Transferring ${describeAmount(validatedInput.amount)} to ${validatedInput.recipient}...`,
+          action: 'AO_TOKEN_TRANSFER'
+        });
+      }
+      
+      const transfer = await token.transfer(validatedInput.recipient, validatedInput.amount, {
+        raw: validatedInput.raw
+      });
+      const amount = info
+        ? formatTokenAmount(transfer.quantity, info.denomination, info.ticker)
+        : describeAmount(transfer.quantity);
+      
+      logger.info(`Transferred ${transfer.quantity} on token process: ${validatedInput.process} with message: ${transfer.messageId}`);
+      
+      const confirmation = transfer.debitNotice && transfer.creditNotice
+        ? 'The token process confirmed the debit and credit.'
+        : 'The token process did not confirm both the debit and credit; check the balances.';
+      
+      // Return result
+      return {
+        success: true,
+        text: `Transferred ${amount} to ${validatedInput.recipient} (message ${transfer.messageId}). ${confirmation}`,
+        data: {
+          actionName: 'AO_TOKEN_TRANSFER',
+          processId: validatedInput.process,
+          messageId: transfer.messageId,
+          recipient: transfer.recipient,
+          quantity: transfer.quantity,
+          debitNotice: transfer.debitNotice,
+          creditNotice: transfer.creditNotice
+        }
+      };
+    } catch (error) {
+      const response = handleAOError(error);
+      
+      if (callback) {
+        await callback({
+          text: `Failed to transfer tokens: ${response.message}`,
+          error: true
+        });
+      }
+      
+      return {
+        success: false,
+        text: `Failed to transfer tokens: ${response.message}`,
+        error: response.details ? new Error(response.details) : new Error(response.message),
+        data: {
+          actionName: 'AO_TOKEN_TRANSFER',
+          errorCode: response.code,
+          errorMessage: response.message,
+          suggestions: response.suggestions
+        }
+      };
+    }
+  },
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: JSON.stringify({
+            process: 'TOKEN_PROCESS_ID',
+            recipient: 'RECIPIENT_ADDRESS',
+            amount: '1.5'
+          })
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Transferred 1.5 TKN to RECIPIENT_ADDRESS (message MESSAGE_ID_012). The token process confirmed the debit and credit.',
+          action: 'AO_TOKEN_TRANSFER'
+        }
+      }
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Transfer 1.5 tokens on TOKEN_PROCESS_ID to RECIPIENT_ADDRESS'
+        }
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: 'Transferred 1.5 TKN to RECIPIENT_ADDRESS (message MESSAGE_ID_012). The token process confirmed the debit and credit.',
+          action: 'AO_TOKEN_TRANSFER'
+        }
+      }
+    ]
+  ]
+};
@@ -0,0 +1,110 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { existsSync } from 'node:fs';
+import { z } from 'zod';
+import { arweaveIdSchema, networkProfilesSchema, spawnPresetsSchema } from './utils/validation';
+import { arweaveJwkSchema } from './utils/wallet';
+
+/**
+ * Check that a string holds a JSON-encoded Arweave JWK
+ */
+function isWalletJwk(value: string): boolean {
+  try {
+    return arweaveJwkSchema.safeParse(JSON.parse(value)).success;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Schema for a setting holding a JSON object of named entries
+ * @param description - What the entries are, used in the error message
+ * @param entries - Schema the parsed object must satisfy
+ */
+function jsonSetting<T extends z.ZodTypeAny>(description: string, entries: T) {
+  return z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value);
+      } catch (error) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `must be a JSON object of ${description}` });
+        return z.NEVER;
+      }
+    })
+    .pipe(entries);
+}
+
+/**
+ * Drop settings left empty, e.g. `AO_WALLET_JWK=` in a .env file, so they
+ * count as unset instead of failing validation
+ */
+function withoutEmptySettings(config: unknown): unknown {
+  if (!config || typeof config !== 'object') return config;
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => !(typeof value === 'string' && value.trim() === ''))
+  );
+}
+
+/**
+ * Configuration schema for AO plugin
+ */
+export const configSchema = z.preprocess(
+  withoutEmptySettings,
+  z.object({
+    AO_API_KEY: z.string().min(1, 'API key is required').optional(),
+    AO_GATEWAY_URL: z.string().url().default('https://arweave.net'),
+    AO_GRAPHQL_URL: z.string().url().default('https://arweave.net/graphql'),
+    AO_MU_URL: z.string().url().optional(),
+    AO_CU_URL: z.string().url().optional(),
+    AO_MODE: z.enum(['legacy', 'mainnet']).default('legacy'),
+    AO_HYPERBEAM_URL: z.string().url().optional(),
+    AO_EXECUTION_DEVICE: z.string().min(1).optional(),
+    AO_DEFAULT_TIMEOUT: z.number().default(30000),
+    AO_RETRY_MAX_ATTEMPTS: z.number().int().min(1).default(3),
+    AO_RETRY_BASE_DELAY: z.number().int().min(0).default(500),
+    AO_MONITOR_PROCESSES: z.string().optional(),
+    AO_MONITOR_INTERVAL: z.number().int().min(1000).default(15000),
+    AO_DEFAULT_MODULE: arweaveIdSchema('AO_DEFAULT_MODULE').optional(),
+    AO_DEFAULT_SCHEDULER: arweaveIdSchema('AO_DEFAULT_SCHEDULER').optional(),
+    AO_AUTHORITY: arweaveIdSchema('AO_AUTHORITY').optional(),
+    AO_SPAWN_PRESETS: jsonSetting('named presets', spawnPresetsSchema).optional(),
+    AO_NETWORKS: jsonSetting('named network profiles', networkProfilesSchema).optional(),
+    AO_DEFAULT_NETWORK: z.string().min(1).optional(),
+    AO_WALLET_JWK: z
+      .string()
+      .refine(isWalletJwk, 'must be the JSON contents of an Arweave RSA keyfile')
+      .optional(),
+    AO_WALLET_PATH: z
+      .string()
+      .refine(path => existsSync(path), 'wallet keyfile does not exist')
+      .optional(),
+  })
+);
+
+/**
+ * Validated AO plugin configuration
+ */
+export type AOPluginConfig = z.infer<typeof configSchema>;
+
+/**
+ * Validated configuration of each runtime the plugin was initialized for
+ */
+const runtimeConfigs = new WeakMap<IAgentRuntime, AOPluginConfig>();
+
+/**
+ * Store the validated plugin configuration for a runtime
+ * @param runtime - The runtime the plugin was initialized for
+ * @param config - The validated configuration
+ */
+export function setAOConfig(runtime: IAgentRuntime, config: AOPluginConfig): void {
+  runtimeConfigs.set(runtime, config);
+}
+
+/**
+ * Get the validated plugin configuration of a runtime
+ * @param runtime - The agent runtime
+ * @returns The configuration, or undefined if the plugin was not initialized for it
+ */
+export function getAOConfig(runtime: IAgentRuntime | undefined): AOPluginConfig | undefined {
+  return runtime ? runtimeConfigs.get(runtime) : undefined;
+}
@@ -7,18 +7,31 @@ export default aoPlugin;
 export { aoPlugin };
 
 // Export services for direct use if needed
-export { AOService } from './services';
+export { AOService, AOTokenClient, AOProcessRegistry, AOMessageLog, AOProcessMonitor, AOGraphQLClient, AOHyperbeamClient, AOEmulator } from './services';
 
 // Export actions for direct use if needed
 export { 
   spawnAOProcessAction, 
   sendAOMessageAction, 
   readAOResultAction, 
-  dryRunAOAction 
+  dryRunAOAction,
+  evalAOLuaAction,
+  getAOTokenBalanceAction,
+  transferAOTokenAction,
+  getAOProcessInfoAction,
+  registerAOProcessAction,
+  listAOProcessesAction,
+  queryAOProcessesAction
 } from './actions';
 
 // Export providers
-export { aoServiceStatusProvider, aoWalletInfoProvider } from './providers';
+export {
+  aoServiceStatusProvider,
+  aoWalletInfoProvider,
+  aoProcessInfoProvider,
+  aoKnownProcessesProvider,
+  aoRecentMessagesProvider
+} from './providers';
 
 // Export types
 export * from './types';
@@ -26,3 +39,10 @@ export * from './types';
 // Export utilities
 export * from './utils/errors';
 export * from './utils/format';
+export * from './utils/output';
+export * from './utils/introspection';
+export * from './utils/lua';
+export * from './utils/retry';
+export * from './utils/wallet';
+export * from './utils/dataItem';
+export * from './utils/validation';
@@ -1,4 +1,4 @@
-import type { Plugin } from '@elizaos/core';
+import type { IAgentRuntime, Plugin } from '@elizaos/core';
 import { logger } from '@elizaos/core';
 import { z } from 'zod';
 
@@ -10,24 +10,31 @@ import {
   spawnAOProcessAction,
   sendAOMessageAction,
   readAOResultAction,
-  dryRunAOAction
+  dryRunAOAction,
+  evalAOLuaAction,
+  getAOTokenBalanceAction,
+  transferAOTokenAction,
+  getAOProcessInfoAction,
+  registerAOProcessAction,
+  listAOProcessesAction,
+  queryAOProcessesAction
 } from './actions';
 
 // Import providers
-import { aoServiceStatusProvider, aoWalletInfoProvider } from './providers/aoProviders';
+import {
+  aoServiceStatusProvider,
+  aoWalletInfoProvider,
+  aoProcessInfoProvider,
+  aoKnownProcessesProvider,
+  aoRecentMessagesProvider
+} from './providers/aoProviders';
+
+// Import types
+import { AOEventType } from './types';
+import type { AOTransactionEventPayload } from './types';
 
-/**
- * Configuration schema for AO plugin
- */
-const configSchema = z.object({
-  AO_API_KEY: z.string().min(1, 'API key is required').optional(),
-  AO_GATEWAY_URL: z.string().url().default('https://arweave.net'),
-  AO_GRAPHQL_URL: z.string().url().default('https://arweave.net/graphql'),
-  AO_MU_URL: z.string().url().optional(),
-  AO_CU_URL: z.string().url().optional(),
-  AO_MODE: z.enum(['legacy', 'mainnet']).default('legacy'),
-  AO_DEFAULT_TIMEOUT: z.number().default(30000),
-});
+// Import configuration
+import { configSchema, getAOConfig, setAOConfig } from './config';
 
 export const aoPlugin: Plugin = {
   name: 'plugin-ao',
@@ -40,22 +47,45 @@ export const aoPlugin: Plugin = {
     AO_MU_URL: process.env.AO_MU_URL,
     AO_CU_URL: process.env.AO_CU_URL,
     AO_MODE: process.env.AO_MODE as 'legacy' | 'mainnet' | undefined,
+    AO_HYPERBEAM_URL: process.env.AO_HYPERBEAM_URL,
+    AO_EXECUTION_DEVICE: process.env.AO_EXECUTION_DEVICE,
     AO_DEFAULT_TIMEOUT: process.env.AO_DEFAULT_TIMEOUT ? parseInt(process.env.AO_DEFAULT_TIMEOUT) : undefined,
+    AO_RETRY_MAX_ATTEMPTS: process.env.AO_RETRY_MAX_ATTEMPTS ? parseInt(process.env.AO_RETRY_MAX_ATTEMPTS) : undefined,
+    AO_RETRY_BASE_DELAY: process.env.AO_RETRY_BASE_DELAY ? parseInt(process.env.AO_RETRY_BASE_DELAY) : undefined,
+    AO_MONITOR_PROCESSES: process.env.AO_MONITOR_PROCESSES,
+    AO_MONITOR_INTERVAL: process.env.AO_MONITOR_INTERVAL ? parseInt(process.env.AO_MONITOR_INTERVAL) : undefined,
+    AO_DEFAULT_MODULE: process.env.AO_DEFAULT_MODULE,
+    AO_DEFAULT_SCHEDULER: process.env.AO_DEFAULT_SCHEDULER,
+    AO_AUTHORITY: process.env.AO_AUTHORITY,
+    AO_SPAWN_PRESETS: process.env.AO_SPAWN_PRESETS,
+    AO_NETWORKS: process.env.AO_NETWORKS,
+    AO_DEFAULT_NETWORK: process.env.AO_DEFAULT_NETWORK,
+    AO_WALLET_JWK: process.env.AO_WALLET_JWK,
+    AO_WALLET_PATH: process.env.AO_WALLET_PATH,
   },
 
-  async init(config: Record<string, any>) {
+  async init(config: Record<string, any>, runtime: IAgentRuntime) {
     logger.info('Initializing AO plugin...');
     
     try {
       // Validate configuration
       const validatedConfig = await configSchema.parseAsync(config);
       
-      // Store config for services to access
-      (global as any).__aoConfig = validatedConfig;
+      // Store config for this runtime's service to access
+      setAOConfig(runtime, validatedConfig);
       
       logger.info('AO plugin initialized successfully');
       logger.info(`Mode: ${validatedConfig.AO_MODE || 'legacy'}`);
       logger.info(`Gateway URL: ${validatedConfig.AO_GATEWAY_URL || 'https://arweave.net'}`);
+      if (validatedConfig.AO_MODE === 'mainnet') {
+        logger.info(`HyperBEAM node: ${validatedConfig.AO_HYPERBEAM_URL ?? 'not set'}`);
+      }
+      if (validatedConfig.AO_NETWORKS) {
+        logger.info(`Network profiles: ${Object.keys(validatedConfig.AO_NETWORKS).join(', ')}`);
+      }
+      if (!validatedConfig.AO_WALLET_JWK && !validatedConfig.AO_WALLET_PATH) {
+        logger.warn('No AO wallet configured; set AO_WALLET_JWK or AO_WALLET_PATH to enable spawning and messaging');
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         const errors = error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join(', ');
@@ -74,12 +104,22 @@ export const aoPlugin: Plugin = {
     sendAOMessageAction,
     readAOResultAction,
     dryRunAOAction,
+    evalAOLuaAction,
+    getAOTokenBalanceAction,
+    transferAOTokenAction,
+    getAOProcessInfoAction,
+    registerAOProcessAction,
+    listAOProcessesAction,
+    queryAOProcessesAction,
   ],
 
   // Providers that supply context
   providers: [
     aoServiceStatusProvider,
-    aoWalletInfoProvider
+    aoWalletInfoProvider,
+    aoProcessInfoProvider,
+    aoKnownProcessesProvider,
+    aoRecentMessagesProvider
   ],
 
   // Evaluators for post-interaction processing
@@ -91,14 +131,16 @@ export const aoPlugin: Plugin = {
       name: 'ao-status',
       path: '/api/ao/status',
       type: 'GET',
-      handler: async (_req: any, res: any) => {
+      handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
         try {
-          const config = (global as any).__aoConfig;
+          const config = getAOConfig(runtime);
+          const service = runtime?.getService<AOService>(AOService.serviceType);
           res.json({
             status: 'active',
             mode: config?.AO_MODE || 'unknown',
             configured: !!config,
             gateway: config?.AO_GATEWAY_URL || 'https://arweave.net',
+            address: service?.getAddress() ?? null,
           });
         } catch (error) {
           res.status(500).json({
@@ -112,16 +154,20 @@ export const aoPlugin: Plugin = {
 
   // Event handlers
   events: {
-    TRANSACTION_CONFIRMED: [
-      async (params) => {
-        logger.info('AO transaction confirmed:', params);
-        // Handle transaction confirmation events
+    [AOEventType.TRANSACTION_CONFIRMED]: [
+      async (params: AOTransactionEventPayload) => {
+        logger.info(
+          `AO ${params.operation} confirmed: process ${params.process}` +
+            (params.messageId && params.messageId !== params.process ? `, message ${params.messageId}` : '')
+        );
       },
     ],
-    TRANSACTION_FAILED: [
-      async (params) => {
-        logger.error('AO transaction failed:', params);
-        // Handle transaction failure events
+    [AOEventType.TRANSACTION_FAILED]: [
+      async (params: AOTransactionEventPayload) => {
+        logger.error(
+          `AO ${params.operation} failed (${params.errorCode}): ${params.error}` +
+            (params.process ? ` [process ${params.process}${params.messageId ? `, message ${params.messageId}` : ''}]` : '')
+        );
       },
     ],
   },
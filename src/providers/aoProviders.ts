@@ -1,5 +1,10 @@
 import type { Provider, ProviderResult, IAgentRuntime, Memory, State } from '@elizaos/core';
 import { AOService } from '../services/AOService';
+import { AOMessageLog } from '../services/AOMessageLog';
+import { AOProcessRegistry } from '../services/AOProcessRegistry';
+import { parseJsonContent } from '../utils/extract';
+import { formatKnownProcess, formatProcessDescription, formatSentMessage } from '../utils/format';
+import { isArweaveId } from '../utils/validation';
 
 /**
  * Provider to get AO service status
@@ -100,17 +105,19 @@ export const aoWalletInfoProvider: Provider = {
         };
       }
 
-      // In a real implementation, we would extract wallet address from signer
-      // For now, we'll just indicate that a wallet is connected
+      const address = service.getAddress();
+
       return {
-        text: 'Wallet is connected and ready for transactions',
+        text: address
+          ? `Wallet ${address} is connected and ready for transactions`
+          : 'Wallet is connected and ready for transactions',
         values: {
           connected: true,
-          address: 'Not available in this context' // Would be extracted from signer in real implementation
+          address: address ?? 'Unknown'
         },
         data: {
           walletConnected: true,
-          address: 'Not available in this context'
+          address
         }
       };
     } catch (error) {
@@ -127,3 +134,197 @@ export const aoWalletInfoProvider: Provider = {
     }
   }
 };
+
+/**
+ * Most processes described for a single message
+ */
+const MAX_DESCRIBED_PROCESSES = 3;
+
+/**
+ * Time allowed for each description, so a slow CU does not hold up the reply
+ */
+const PROCESS_INFO_TIMEOUT = 5000;
+
+/**
+ * Check whether a label appears as a whole word in the text
+ */
+function mentionsLabel(text: string, label: string): boolean {
+  const escaped = label.trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return escaped.length > 0 && new RegExp(`(^|[^\\w-])${escaped}($|[^\\w-])`, 'i').test(text);
+}
+
+/**
+ * Find the processes a message refers to
+ *
+ * Only the message's explicit `process` parameter and processes in the
+ * registry count, so arbitrary 43-character tokens in chat are never dry-run.
+ */
+async function findMentionedProcesses(runtime: IAgentRuntime, message: Memory): Promise<string[]> {
+  const registry = new AOProcessRegistry(runtime);
+  const text = typeof message.content.text === 'string' ? message.content.text : '';
+  const explicit = parseJsonContent(message)?.process;
+  const resolved = typeof explicit === 'string' ? ((await registry.resolve(explicit))?.processId ?? explicit) : undefined;
+  const known = (await registry.list()).filter(
+    entry => text.includes(entry.processId) || entry.labels.some(label => mentionsLabel(text, label))
+  );
+
+  return [...new Set([resolved, ...known.map(entry => entry.processId)])]
+    .filter((processId): processId is string => processId !== undefined && isArweaveId(processId))
+    .slice(0, MAX_DESCRIBED_PROCESSES);
+}
+
+/**
+ * Provider describing the actions supported by processes mentioned in a message
+ */
+export const aoProcessInfoProvider: Provider = {
+  name: 'AO_PROCESS_INFO',
+  description: 'Lists the actions and tags supported by known AO processes mentioned in the conversation',
+
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State
+  ): Promise<ProviderResult> => {
+    try {
+      const service = runtime.getService<AOService>('ao');
+      const processIds = service?.isInitialized() ? await findMentionedProcesses(runtime, message) : [];
+
+      if (!service || processIds.length === 0) {
+        return {
+          text: '',
+          values: {
+            describedProcesses: 0
+          },
+          data: {
+            descriptions: []
+          }
+        };
+      }
+
+      // Descriptions are cached by the service, so repeated mentions are cheap
+      const network = parseJsonContent(message)?.network;
+      const settled = await Promise.allSettled(
+        processIds.map(processId =>
+          service.describeProcess(processId, {
+            timeout: PROCESS_INFO_TIMEOUT,
+            retry: false,
+            network: typeof network === 'string' ? network : undefined
+          })
+        )
+      );
+      const descriptions = settled.flatMap(outcome => (outcome.status === 'fulfilled' ? [outcome.value] : []));
+
+      return {
+        text: descriptions.length
+          ? `# AO processes in this message\n${descriptions.map(formatProcessDescription).join('\n\n')}`
+          : '',
+        values: {
+          describedProcesses: descriptions.length
+        },
+        data: {
+          descriptions
+        }
+      };
+    } catch (error) {
+      return {
+        text: '',
+        values: {
+          describedProcesses: 0
+        },
+        data: {
+          descriptions: [],
+          error: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Provider listing the processes the agent knows by label
+ */
+export const aoKnownProcessesProvider: Provider = {
+  name: 'AO_KNOWN_PROCESSES',
+  description: 'Lists AO processes the agent has spawned or registered, so they can be referred to by label',
+
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State
+  ): Promise<ProviderResult> => {
+    try {
+      const processes = await new AOProcessRegistry(runtime).list();
+      const knownProcesses = processes.length ? processes.map(formatKnownProcess).join('\n') : 'None';
+
+      return {
+        text: processes.length ? `# Known AO processes\n${knownProcesses}` : '',
+        values: {
+          knownProcesses
+        },
+        data: {
+          processes
+        }
+      };
+    } catch (error) {
+      return {
+        text: '',
+        values: {
+          knownProcesses: 'None'
+        },
+        data: {
+          processes: [],
+          error: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+};
+
+/**
+ * Most outstanding messages listed in the agent's context
+ */
+const MAX_LISTED_MESSAGES = 5;
+
+/**
+ * Provider summarizing sent messages whose results have not been read
+ */
+export const aoRecentMessagesProvider: Provider = {
+  name: 'AO_RECENT_MESSAGES',
+  description: 'Lists AO messages the agent sent whose results it has not read yet',
+
+  get: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state?: State
+  ): Promise<ProviderResult> => {
+    try {
+      const outstanding = await new AOMessageLog(runtime).outstanding();
+      const listed = outstanding.slice(0, MAX_LISTED_MESSAGES);
+      const more = outstanding.length - listed.length;
+
+      return {
+        text: outstanding.length
+          ? `# AO messages with unread results\n${listed.map(sent => formatSentMessage(sent)).join('\n')}` +
+            (more > 0 ? `\n- and ${more} more` : '')
+          : '',
+        values: {
+          outstandingMessages: outstanding.length
+        },
+        data: {
+          messages: outstanding
+        }
+      };
+    } catch (error) {
+      return {
+        text: '',
+        values: {
+          outstandingMessages: 0
+        },
+        data: {
+          messages: [],
+          error: error instanceof Error ? error.message : String(error)
+        }
+      };
+    }
+  }
+};
@@ -1,2 +1,5 @@
 export { aoServiceStatusProvider } from './aoProviders';
 export { aoWalletInfoProvider } from './aoProviders';
+export { aoProcessInfoProvider } from './aoProviders';
+export { aoKnownProcessesProvider } from './aoProviders';
+export { aoRecentMessagesProvider } from './aoProviders';
@@ -0,0 +1,479 @@
+import { randomBytes } from 'node:crypto';
+import { createServer } from 'node:http';
+import type { Server } from 'node:http';
+import type {
+  AOResult,
+  AOServiceConfig,
+  EmulatorContext,
+  EmulatorHandler,
+  EmulatorMessage,
+  EmulatorOutboundMessage,
+  EmulatorProcess
+} from '../types';
+import { parseDataItem } from '../utils/dataItem';
+import { AOError, AOErrorCode } from '../utils/errors';
+
+const DEFAULT_URL = 'http://ao.emulator';
+const DEFAULT_RESULTS_LIMIT = 25;
+
+/**
+ * Tags the emulator's gateway reports for every defined module
+ */
+const MODULE_TAGS = [
+  { name: 'Data-Protocol', value: 'ao' },
+  { name: 'Variant', value: 'ao.TN.1' },
+  { name: 'Type', value: 'Module' },
+  { name: 'Module-Format', value: 'wasm64-unknown-emscripten-draft_2024_02_15' },
+  { name: 'Input-Encoding', value: 'JSON-1' },
+  { name: 'Output-Encoding', value: 'JSON-1' },
+  { name: 'Memory-Limit', value: '1-gb' }
+];
+
+/**
+ * HTTP status returned for each kind of emulator error
+ */
+const ERROR_STATUS: Partial<Record<AOErrorCode, number>> = {
+  [AOErrorCode.VALIDATION_ERROR]: 400,
+  [AOErrorCode.PROCESS_NOT_FOUND]: 404
+};
+
+/**
+ * A transaction the emulator's gateway can find through GraphQL
+ */
+interface GatewayTransaction {
+  id: string;
+  owner: string;
+  recipient?: string;
+  tags: { name: string; value: string }[];
+  height: number;
+  timestamp: number;
+}
+
+/**
+ * An evaluated message and its result, in schedule order
+ */
+interface ScheduledMessage {
+  message: EmulatorMessage;
+  result: AOResult;
+}
+
+interface EmulatedProcess extends EmulatorProcess {
+  handler: EmulatorHandler;
+  state: Record<string, any>;
+  schedule: ScheduledMessage[];
+  queue: Promise<unknown>;
+}
+
+/**
+ * Generate a random 43-character Arweave ID
+ */
+function randomId(): string {
+  return randomBytes(32).toString('base64url');
+}
+
+function tagsOf(tags: EmulatorOutboundMessage['Tags'] = []): { name: string; value: string }[] {
+  return Array.isArray(tags) ? tags : Object.entries(tags).map(([name, value]) => ({ name, value: String(value) }));
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+/**
+ * In-memory MU, CU, scheduler and gateway for offline tests and local development
+ *
+ * Processes run JavaScript handlers instead of WASM modules: define a module
+ * with a handler, spawn processes from it through aoconnect as usual, and
+ * every message sent to them is evaluated in order as soon as the MU accepts
+ * it, so its result can be read straight away. The emulator answers the
+ * requests legacy-mode aoconnect and AOService make, either through its
+ * `fetch` (pass `emulator.config` to AOService) or over HTTP with `listen()`.
+ *
+ * Outbox messages and spawns are recorded in results but not delivered, and
+ * data item signatures are not verified.
+ */
+export class AOEmulator {
+  /**
+   * Address of the emulator's scheduler
+   */
+  readonly scheduler = randomId();
+
+  private baseUrl: string;
+  private modules = new Map<string, EmulatorHandler>();
+  private processes = new Map<string, EmulatedProcess>();
+  private results = new Map<string, { process: string; result: AOResult }>();
+  private transactions: GatewayTransaction[] = [];
+  private schedulerLocation: GatewayTransaction;
+  private server: Server | undefined = undefined;
+
+  /**
+   * @param options - Base URL the emulator's endpoints are reported under
+   */
+  constructor(options: { url?: string } = {}) {
+    this.baseUrl = (options.url ?? DEFAULT_URL).replace(/\/+$/, '');
+    this.schedulerLocation = this.index({
+      id: randomId(),
+      owner: this.scheduler,
+      tags: [
+        { name: 'Data-Protocol', value: 'ao' },
+        { name: 'Type', value: 'Scheduler-Location' },
+        { name: 'Url', value: this.baseUrl }
+      ]
+    });
+  }
+
+  /**
+   * Base URL of the emulator: the gateway, with the MU at `/mu`, the CU at
+   * `/cu` and GraphQL at `/graphql`
+   */
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  /**
+   * AOService configuration that routes every legacy request to the emulator
+   */
+  get config(): AOServiceConfig {
+    return {
+      mode: 'legacy',
+      gatewayUrl: this.baseUrl,
+      graphqlUrl: `${this.baseUrl}/graphql`,
+      muUrl: `${this.baseUrl}/mu`,
+      cuUrl: `${this.baseUrl}/cu`,
+      defaultScheduler: this.scheduler,
+      fetch: this.fetch
+    };
+  }
+
+  /**
+   * Define a module whose processes evaluate messages with a handler
+   * @param handler - Called for every message, including the spawn message
+   * @param options - Optional module ID and extra gateway tags
+   * @returns The module ID
+   */
+  defineModule(handler: EmulatorHandler, options: { id?: string; tags?: { name: string; value: string }[] } = {}): string {
+    const id = options.id ?? randomId();
+    this.modules.set(id, handler);
+    this.index({ id, owner: randomId(), tags: [...MODULE_TAGS, ...(options.tags ?? [])] });
+    return id;
+  }
+
+  /**
+   * Get an emulated process
+   * @returns The process, or undefined if the emulator has not spawned it
+   */
+  getProcess(process: string): EmulatorProcess | undefined {
+    const emulated = this.processes.get(process);
+    return emulated && { id: emulated.id, owner: emulated.owner, module: emulated.module, tags: emulated.tags };
+  }
+
+  /**
+   * Get the state of an emulated process
+   */
+  getState(process: string): Record<string, any> | undefined {
+    return this.processes.get(process)?.state;
+  }
+
+  /**
+   * Get the messages a process has evaluated, in schedule order
+   */
+  getMessages(process: string): EmulatorMessage[] {
+    return this.processes.get(process)?.schedule.map(({ message }) => message) ?? [];
+  }
+
+  /**
+   * Answer a request as the emulator's MU, CU or gateway
+   *
+   * Can be passed to aoconnect's `connect()` or set as AOService's `fetch`.
+   */
+  readonly fetch = (input: RequestInfo | URL, init?: RequestInit): Promise<Response> =>
+    this.handle(new Request(input, init));
+
+  /**
+   * Route a request to the MU, CU or gateway
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const path = url.pathname.replace(/\/+$/, '');
+
+    try {
+      if (request.method === 'POST' && path === '/mu') {
+        return json(await this.schedule(new Uint8Array(await request.arrayBuffer())));
+      }
+      if (request.method === 'GET' && path.startsWith('/cu/result/')) {
+        return json(this.readResult(decodeURIComponent(path.slice('/cu/result/'.length))));
+      }
+      if (request.method === 'POST' && path === '/cu/dry-run') {
+        return json(await this.dryRun(url.searchParams.get('process-id') ?? '', await request.json()));
+      }
+      if (request.method === 'GET' && path.startsWith('/cu/results/')) {
+        return json(this.listResults(decodeURIComponent(path.slice('/cu/results/'.length)), url.searchParams));
+      }
+      if (request.method === 'POST' && path === '/graphql') {
+        const { variables = {} } = (await request.json()) as { variables?: Record<string, any> };
+        return json({ data: { transactions: this.queryTransactions(variables) } });
+      }
+      throw new AOError(AOErrorCode.PROCESS_NOT_FOUND, `No emulator endpoint for ${request.method} ${url.pathname}`);
+    } catch (error) {
+      const code = error instanceof AOError ? error.code : AOErrorCode.PROTOCOL_ERROR;
+      return json({ error: error instanceof Error ? error.message : String(error) }, ERROR_STATUS[code] ?? 500);
+    }
+  }
+
+  /**
+   * Serve the emulator over HTTP, e.g. for an agent configured with AO_MU_URL,
+   * AO_CU_URL and AO_GATEWAY_URL
+   * @param port - Port to listen on; 0 picks a free one
+   * @param hostname - Interface to listen on
+   * @returns The emulator's new base URL
+   */
+  async listen(port = 0, hostname = '127.0.0.1'): Promise<string> {
+    const server = createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', chunk => chunks.push(chunk));
+      req.on('end', async () => {
+        const body = req.method === 'GET' || req.method === 'HEAD' ? undefined : Buffer.concat(chunks);
+        const response = await this.handle(
+          new Request(`${this.baseUrl}${req.url ?? '/'}`, {
+            method: req.method,
+            headers: req.headers['content-type'] ? { 'Content-Type': req.headers['content-type'] } : undefined,
+            body
+          })
+        );
+        res.writeHead(response.status, { 'Content-Type': response.headers.get('content-type') ?? 'application/json' });
+        res.end(Buffer.from(await response.arrayBuffer()));
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, hostname, resolve);
+    });
+    const address = server.address();
+    if (!address || typeof address === 'string') {
+      throw new AOError(AOErrorCode.NETWORK_ERROR, 'The emulator server has no TCP address');
+    }
+
+    this.server = server;
+    this.baseUrl = `http://${hostname}:${address.port}`;
+    this.schedulerLocation.tags = this.schedulerLocation.tags.map(tag =>
+      tag.name === 'Url' ? { name: 'Url', value: this.baseUrl } : tag
+    );
+    return this.baseUrl;
+  }
+
+  /**
+   * Stop serving over HTTP
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      await new Promise<void>((resolve, reject) => server.close(error => (error ? reject(error) : resolve())));
+    }
+  }
+
+  /**
+   * Accept a data item as the MU: spawn a process or schedule a message, and
+   * evaluate it before answering
+   */
+  private async schedule(bytes: Uint8Array): Promise<{ id: string; message: string }> {
+    const item = parseDataItem(bytes);
+    const tags = Object.fromEntries(item.tags.map(tag => [tag.name, tag.value]));
+
+    let process: EmulatedProcess | undefined;
+    if (tags.Type === 'Process') {
+      const handler = this.modules.get(tags.Module);
+      if (!handler) {
+        throw new AOError(AOErrorCode.VALIDATION_ERROR, `Module ${tags.Module} is not defined in the emulator`);
+      }
+      process = {
+        id: item.id,
+        owner: item.owner,
+        module: tags.Module,
+        tags: item.tags,
+        handler,
+        state: {},
+        schedule: [],
+        queue: Promise.resolve()
+      };
+      this.processes.set(item.id, process);
+    } else {
+      process = item.target ? this.processes.get(item.target) : undefined;
+      if (!process) {
+        throw new AOError(AOErrorCode.PROCESS_NOT_FOUND, `Process ${item.target} not found`);
+      }
+    }
+    this.index({ id: item.id, owner: item.owner, recipient: item.target, tags: item.tags });
+
+    const message: EmulatorMessage = {
+      Id: item.id,
+      From: item.owner,
+      Owner: item.owner,
+      Target: process.id,
+      Anchor: item.anchor,
+      Data: item.data,
+      Tags: item.tags,
+      Nonce: process.schedule.length,
+      Timestamp: Date.now(),
+      tags
+    };
+    const scheduled: ScheduledMessage = { message, result: { Output: {}, Messages: [], Spawns: [] } };
+    process.schedule.push(scheduled);
+    scheduled.result = await this.evaluate(process, message, false);
+    this.results.set(item.id, { process: process.id, result: scheduled.result });
+
+    return { id: item.id, message: 'Processing DataItem' };
+  }
+
+  /**
+   * Read the result of an evaluated message as the CU
+   */
+  private readResult(id: string): AOResult {
+    const entry = this.results.get(id);
+    if (!entry) {
+      throw new AOError(AOErrorCode.PROCESS_NOT_FOUND, `Message ${id} not found`);
+    }
+    return entry.result;
+  }
+
+  /**
+   * Evaluate a message against a process's current state without keeping the changes
+   */
+  private async dryRun(processId: string, body: Record<string, any>): Promise<AOResult> {
+    const process = this.processes.get(processId);
+    if (!process) {
+      throw new AOError(AOErrorCode.PROCESS_NOT_FOUND, `Process ${processId} not found`);
+    }
+
+    const tags: { name: string; value: string }[] = body.Tags ?? [];
+    const from = body.From ?? body.Owner ?? '';
+    return this.evaluate(
+      process,
+      {
+        Id: body.Id ?? randomId(),
+        From: from,
+        Owner: body.Owner ?? from,
+        Target: process.id,
+        Anchor: body.Anchor,
+        Data: typeof body.Data === 'string' ? body.Data : '',
+        Tags: tags,
+        Nonce: process.schedule.length,
+        Timestamp: Date.now(),
+        tags: Object.fromEntries(tags.map(tag => [tag.name, tag.value]))
+      },
+      true
+    );
+  }
+
+  /**
+   * List a process's results as the CU; cursors are schedule positions, `from`
+   * is exclusive and `to` inclusive
+   */
+  private listResults(processId: string, params: URLSearchParams) {
+    const process = this.processes.get(processId);
+    if (!process) {
+      throw new AOError(AOErrorCode.PROCESS_NOT_FOUND, `Process ${processId} not found`);
+    }
+
+    const from = params.has('from') ? Number(params.get('from')) : -Infinity;
+    const to = params.has('to') ? Number(params.get('to')) : Infinity;
+    const limit = Number(params.get('limit') ?? DEFAULT_RESULTS_LIMIT);
+    const edges = process.schedule
+      .filter(({ message }) => message.Nonce > from && message.Nonce <= to)
+      .map(({ message, result }) => ({ cursor: String(message.Nonce), node: result }));
+    if (params.get('sort') === 'DESC') {
+      edges.reverse();
+    }
+
+    return { edges: edges.slice(0, limit), pageInfo: { hasNextPage: edges.length > limit } };
+  }
+
+  /**
+   * Answer a transactions query as the gateway, newest first
+   *
+   * Only the variables are read, so any query selecting fields of these
+   * transactions works: `ids` (or aoconnect's `transactionIds`), `owners`,
+   * `recipients`, `tags`, `first` and `after`.
+   */
+  private queryTransactions(variables: Record<string, any>) {
+    const ids: string[] | undefined = variables.ids ?? variables.transactionIds;
+    const owners: string[] | undefined = variables.owners;
+    const recipients: string[] | undefined = variables.recipients;
+    const tags: { name: string; values: string[] }[] = variables.tags ?? [];
+    const first: number = variables.first ?? 10;
+    const after = variables.after === undefined || variables.after === null ? Infinity : Number(variables.after);
+
+    const matches = this.transactions
+      .filter(
+        transaction =>
+          transaction.height < after &&
+          (!ids?.length || ids.includes(transaction.id)) &&
+          (!owners?.length || owners.includes(transaction.owner)) &&
+          (!recipients?.length || (!!transaction.recipient && recipients.includes(transaction.recipient))) &&
+          tags.every(filter => transaction.tags.some(tag => tag.name === filter.name && filter.values.includes(tag.value)))
+      )
+      .reverse();
+
+    return {
+      pageInfo: { hasNextPage: matches.length > first },
+      edges: matches.slice(0, first).map(transaction => ({
+        cursor: String(transaction.height),
+        node: {
+          id: transaction.id,
+          recipient: transaction.recipient ?? '',
+          owner: { address: transaction.owner },
+          tags: transaction.tags,
+          block: { id: `block-${transaction.height}`, height: transaction.height, timestamp: transaction.timestamp }
+        }
+      }))
+    };
+  }
+
+  /**
+   * Record a transaction with the gateway, mined in its own block
+   */
+  private index(transaction: Omit<GatewayTransaction, 'height' | 'timestamp'>): GatewayTransaction {
+    const indexed = { ...transaction, height: this.transactions.length, timestamp: Math.floor(Date.now() / 1000) };
+    this.transactions.push(indexed);
+    return indexed;
+  }
+
+  /**
+   * Run a process's handler on a message, one message at a time per process
+   */
+  private evaluate(process: EmulatedProcess, message: EmulatorMessage, dryRun: boolean): Promise<AOResult> {
+    const evaluation = process.queue.then(async (): Promise<AOResult> => {
+      const output: string[] = [];
+      const result: AOResult = { Output: {}, Messages: [], Spawns: [] };
+      const context: EmulatorContext = {
+        process: this.getProcess(process.id)!,
+        state: structuredClone(process.state),
+        dryRun,
+        print: (...values) =>
+          output.push(values.map(value => (typeof value === 'string' ? value : JSON.stringify(value))).join(' ')),
+        send: outbound =>
+          result.Messages.push({
+            Target: outbound.Target,
+            Data: outbound.Data ?? '',
+            Tags: tagsOf(outbound.Tags),
+            Anchor: String(result.Messages.length + 1).padStart(32, '0')
+          }),
+        spawn: outbound => result.Spawns.push({ Data: outbound.Data ?? '', Tags: tagsOf(outbound.Tags) })
+      };
+
+      try {
+        await process.handler(message, context);
+        if (!dryRun) {
+          process.state = context.state;
+        }
+      } catch (error) {
+        result.Error = error instanceof Error ? error.message : String(error);
+      }
+      result.Output = { data: output.join('\n') };
+      return result;
+    });
+    process.queue = evaluation.catch(() => undefined);
+    return evaluation;
+  }
+}
@@ -0,0 +1,159 @@
+import type { AOService } from './AOService';
+import type { AOTransaction, AOTransactionPage, TransactionQueryOptions } from '../types';
+
+const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Tag every AO transaction carries
+ */
+const AO_TAG = { name: 'Data-Protocol', value: 'ao' };
+
+/**
+ * Query for transactions matching owner, recipient and tag filters, newest first
+ */
+const TRANSACTIONS_QUERY = `query ($ids: [ID!], $owners: [String!], $recipients: [String!], $tags: [TagFilter!], $first: Int, $after: String) {
+  transactions(ids: $ids, owners: $owners, recipients: $recipients, tags: $tags, first: $first, after: $after, sort: HEIGHT_DESC) {
+    pageInfo { hasNextPage }
+    edges {
+      cursor
+      node {
+        id
+        recipient
+        owner { address }
+        tags { name value }
+        block { height timestamp }
+      }
+    }
+  }
+}`;
+
+interface TransactionsResponse {
+  transactions: {
+    pageInfo: { hasNextPage: boolean };
+    edges: {
+      cursor: string;
+      node: {
+        id: string;
+        recipient?: string | null;
+        owner: { address: string };
+        tags: { name: string; value: string }[];
+        block?: { height: number; timestamp: number } | null;
+      };
+    }[];
+  };
+}
+
+interface TransactionFilter {
+  ids?: string[];
+  owners?: string[];
+  recipients?: string[];
+  tags: { name: string; value: string }[];
+}
+
+/**
+ * Client for finding AO processes, messages and modules through the Arweave
+ * GraphQL endpoint
+ *
+ * Results are newest first. Time bounds are applied to block timestamps after
+ * each page is fetched, so a page can hold fewer than `first` transactions;
+ * pending transactions count as current.
+ */
+export class AOGraphQLClient {
+  constructor(private readonly service: AOService) {}
+
+  /**
+   * Find the processes spawned by a wallet
+   * @param owner - Wallet address of the spawner
+   * @param options - Optional page size, cursor, time bounds, timeout and abort signal
+   */
+  async findProcessesByOwner(owner: string, options: TransactionQueryOptions = {}): Promise<AOTransactionPage> {
+    return this.queryTransactions({ owners: [owner], tags: [AO_TAG, { name: 'Type', value: 'Process' }] }, options);
+  }
+
+  /**
+   * Find the messages sent to a process
+   * @param process - The process ID
+   * @param options - Optional page size, cursor, time bounds, timeout and abort signal
+   */
+  async findMessagesToProcess(process: string, options: TransactionQueryOptions = {}): Promise<AOTransactionPage> {
+    return this.queryTransactions({ recipients: [process], tags: [AO_TAG, { name: 'Type', value: 'Message' }] }, options);
+  }
+
+  /**
+   * Find module transactions by tags, e.g. `Module-Format` or `Name`
+   * @param tags - Tags every module must carry
+   * @param options - Optional page size, cursor, time bounds, timeout and abort signal
+   */
+  async findModules(
+    tags: { name: string; value: string }[] = [],
+    options: TransactionQueryOptions = {}
+  ): Promise<AOTransactionPage> {
+    return this.queryTransactions({ tags: [AO_TAG, { name: 'Type', value: 'Module' }, ...tags] }, options);
+  }
+
+  /**
+   * Look up a transaction by ID
+   * @param id - The transaction ID
+   * @param options - Optional timeout and abort signal
+   * @returns The transaction, or undefined if the gateway does not know it
+   */
+  async getTransaction(id: string, options: TransactionQueryOptions = {}): Promise<AOTransaction | undefined> {
+    const { transactions } = await this.queryTransactions({ ids: [id], tags: [] }, { ...options, first: 1 });
+    return transactions[0];
+  }
+
+  /**
+   * Find the most recent Scheduler-Location record published by a scheduler
+   * @param scheduler - The scheduler's wallet address
+   * @param options - Optional timeout and abort signal
+   * @returns The record, or undefined if the scheduler has not published one
+   */
+  async findSchedulerLocation(scheduler: string, options: TransactionQueryOptions = {}): Promise<AOTransaction | undefined> {
+    const { transactions } = await this.queryTransactions(
+      { owners: [scheduler], tags: [AO_TAG, { name: 'Type', value: 'Scheduler-Location' }] },
+      { ...options, first: 1 }
+    );
+    return transactions[0];
+  }
+
+  /**
+   * Query one page of AO transactions and apply the time bounds
+   */
+  private async queryTransactions(filter: TransactionFilter, options: TransactionQueryOptions): Promise<AOTransactionPage> {
+    const { first = DEFAULT_PAGE_SIZE, after, since, until, ...callOptions } = options;
+    const data = await this.service.queryGraphQL<TransactionsResponse>(
+      TRANSACTIONS_QUERY,
+      {
+        ids: filter.ids,
+        owners: filter.owners,
+        recipients: filter.recipients,
+        tags: filter.tags.map(tag => ({ name: tag.name, values: [tag.value] })),
+        first,
+        after
+      },
+      callOptions
+    );
+
+    const { edges, pageInfo } = data.transactions;
+    const transactions = edges.map(({ node }): AOTransaction => ({
+      id: node.id,
+      owner: node.owner.address,
+      recipient: node.recipient || undefined,
+      tags: node.tags,
+      timestamp: node.block ? node.block.timestamp * 1000 : undefined,
+      height: node.block?.height
+    }));
+    const now = Date.now();
+    const oldest = transactions[transactions.length - 1]?.timestamp ?? now;
+
+    return {
+      transactions: transactions.filter(transaction => {
+        const time = transaction.timestamp ?? now;
+        return (since === undefined || time >= since) && (until === undefined || time <= until);
+      }),
+      cursor: edges[edges.length - 1]?.cursor,
+      // Results are newest first, so nothing after an old enough page can match
+      hasNextPage: pageInfo.hasNextPage && (since === undefined || oldest >= since)
+    };
+  }
+}
@@ -0,0 +1,147 @@
+import type { AOResult } from '../types';
+import { AOError, AOErrorCode } from '../utils/errors';
+
+const DEFAULT_EXECUTION_DEVICE = 'genesis-wasm@1.0';
+
+/**
+ * Devices every process spawned on HyperBEAM is configured with
+ */
+const PROCESS_DEVICES = {
+  device: 'process@1.0',
+  'scheduler-device': 'scheduler@1.0',
+  'push-device': 'push@1.0',
+};
+
+/**
+ * Fields identifying a message as an AO message
+ */
+const AO_FIELDS = { 'data-protocol': 'ao', variant: 'ao.N.1' };
+
+/**
+ * Signed request to a HyperBEAM node, as returned by aoconnect's mainnet
+ * `connect()`; the response's headers are returned as fields next to `body`
+ */
+export type HyperbeamRequest = (fields: Record<string, unknown>) => Promise<Record<string, any>>;
+
+/**
+ * Turn message tags into HTTP message fields
+ */
+function toFields(tags: { name: string; value: string }[] = []): Record<string, string> {
+  return Object.fromEntries(tags.map(tag => [tag.name, tag.value]));
+}
+
+/**
+ * Client for spawning, messaging and reading results through a HyperBEAM node
+ *
+ * Mirrors the parts of aoconnect's legacy API that HyperBEAM supports, so the
+ * service can use either. Processes are addressed through the process@1.0
+ * device: messages are pushed to `/<process>~process@1.0/push`, which assigns
+ * them a slot, and results are computed at that slot. The slot therefore
+ * stands in for the message ID when reading results.
+ */
+export class AOHyperbeamClient {
+  constructor(
+    private readonly request: HyperbeamRequest,
+    private readonly executionDevice: string = DEFAULT_EXECUTION_DEVICE
+  ) {}
+
+  /**
+   * Spawn a process on the node's scheduler
+   * @returns The process ID
+   */
+  async spawn(args: {
+    module: string;
+    scheduler: string;
+    tags?: { name: string; value: string }[];
+    data?: string;
+  }): Promise<string> {
+    const response = await this.request({
+      path: '/push',
+      method: 'POST',
+      ...toFields(args.tags),
+      ...PROCESS_DEVICES,
+      'execution-device': this.executionDevice,
+      ...AO_FIELDS,
+      type: 'Process',
+      module: args.module,
+      scheduler: args.scheduler,
+      data: args.data ?? '',
+    });
+
+    if (typeof response.process !== 'string' || !response.process) {
+      throw new AOError(AOErrorCode.PROTOCOL_ERROR, 'The HyperBEAM node did not return a process ID', { response }, [
+        'Check that AO_HYPERBEAM_URL points to a HyperBEAM node that schedules processes',
+      ]);
+    }
+    return response.process;
+  }
+
+  /**
+   * Push a message to a process
+   * @returns The slot the process's scheduler assigned to the message
+   */
+  async message(args: {
+    process: string;
+    data?: string;
+    tags?: { name: string; value: string }[];
+    anchor?: string;
+  }): Promise<string> {
+    const response = await this.request({
+      path: `/${args.process}~process@1.0/push`,
+      method: 'POST',
+      ...toFields(args.tags),
+      ...AO_FIELDS,
+      type: 'Message',
+      target: args.process,
+      ...(args.anchor ? { anchor: args.anchor } : {}),
+      data: args.data ?? '',
+    });
+
+    if (response.slot === undefined || response.slot === null || response.slot === '') {
+      throw new AOError(AOErrorCode.PROTOCOL_ERROR, `The HyperBEAM node did not assign a slot to the message`, {
+        process: args.process,
+        response,
+      });
+    }
+    return String(response.slot);
+  }
+
+  /**
+   * Compute a process up to a message and return that message's result
+   * @param args - The process and the slot returned by `message`
+   */
+  async result(args: { process: string; message: string }): Promise<AOResult> {
+    if (!/^\d+$/.test(args.message)) {
+      throw new AOError(
+        AOErrorCode.VALIDATION_ERROR,
+        `"${args.message}" is not a slot; results on a mainnet network are read by slot`,
+        { process: args.process, message: args.message },
+        ['Use the slot SEND_AO_MESSAGE reported for the message, or read the latest result without a message ID']
+      );
+    }
+
+    const response = await this.request({
+      path: `/${args.process}~process@1.0/compute&slot=${args.message}/results`,
+      method: 'GET',
+    });
+
+    let parsed: any;
+    try {
+      parsed = JSON.parse(response.body);
+    } catch (error) {
+      throw new AOError(
+        AOErrorCode.PROTOCOL_ERROR,
+        `The HyperBEAM node returned a result for slot ${args.message} that is not JSON`,
+        { process: args.process, slot: args.message, originalError: error instanceof Error ? error.message : String(error) }
+      );
+    }
+
+    const results = parsed?.results ?? parsed ?? {};
+    return {
+      Output: results.Output ?? results.output ?? {},
+      Messages: results.Messages ?? results.messages ?? [],
+      Spawns: results.Spawns ?? results.spawns ?? [],
+      Error: results.Error ?? results.error,
+    };
+  }
+}
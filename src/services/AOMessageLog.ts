@@ -0,0 +1,101 @@
+import { createHash } from 'node:crypto';
+import type { IAgentRuntime } from '@elizaos/core';
+import type { SentMessage } from '../types';
+import { withCacheLock } from '../utils/cache';
+
+/**
+ * Number of messages kept in the log; older entries are dropped
+ */
+const MAX_LOGGED_MESSAGES = 100;
+
+/**
+ * Log of messages the agent has sent, persisted in the runtime cache
+ *
+ * Lets the agent find "the last message I sent to X" and see which results
+ * it has not read yet. Updates are serialized per runtime, so concurrent
+ * sends and reads do not drop entries.
+ */
+export class AOMessageLog {
+  constructor(private readonly runtime: IAgentRuntime) {}
+
+  private get cacheKey(): string {
+    return `ao/messages/${this.runtime.agentId}`;
+  }
+
+  /**
+   * List logged messages, most recent first
+   * @param process - Only include messages sent to this process
+   */
+  async list(process?: string): Promise<SentMessage[]> {
+    const messages = (await this.runtime.getCache<SentMessage[]>(this.cacheKey)) ?? [];
+    return messages
+      .filter(entry => !process || entry.process === process)
+      .sort((a, b) => b.sentAt - a.sentAt);
+  }
+
+  /**
+   * Get the most recent message sent to a process
+   * @param process - The process ID; any process when omitted
+   */
+  async latest(process?: string): Promise<SentMessage | undefined> {
+    return (await this.list(process))[0];
+  }
+
+  /**
+   * List messages whose results have not been read, most recent first
+   */
+  async outstanding(): Promise<SentMessage[]> {
+    return (await this.list()).filter(entry => entry.status === 'pending');
+  }
+
+  /**
+   * Record a sent message
+   * @param process - The process the message was sent to
+   * @param messageId - The message ID, or mainnet slot
+   * @param data - The message data, stored only as a hash
+   * @param tags - The message tags
+   */
+  async record(
+    process: string,
+    messageId: string,
+    data: string,
+    tags: { name: string; value: string }[] = []
+  ): Promise<SentMessage> {
+    const entry: SentMessage = {
+      messageId,
+      process,
+      tags,
+      dataHash: createHash('sha256').update(data).digest('hex'),
+      sentAt: Date.now(),
+      status: 'pending'
+    };
+    return withCacheLock(this.runtime, this.cacheKey, async () => {
+      const messages = await this.list();
+      await this.runtime.setCache(this.cacheKey, [entry, ...messages].slice(0, MAX_LOGGED_MESSAGES));
+      return entry;
+    });
+  }
+
+  /**
+   * Record that a message's result was read
+   *
+   * Entries are matched by process as well, since mainnet slots repeat
+   * across processes.
+   * @param process - The process the message was sent to
+   * @param messageId - The message ID, or mainnet slot
+   * @param failed - Whether the result reported an evaluation error
+   * @returns Whether the message was in the log
+   */
+  async markRead(process: string, messageId: string, failed: boolean): Promise<boolean> {
+    return withCacheLock(this.runtime, this.cacheKey, async () => {
+      const messages = await this.list();
+      const entry = messages.find(logged => logged.process === process && logged.messageId === messageId);
+      if (!entry) return false;
+
+      entry.status = failed ? 'failed' : 'succeeded';
+      entry.readAt ??= Date.now();
+      await this.runtime.setCache(this.cacheKey, messages);
+      return true;
+    });
+  }
+}
@@ -0,0 +1,216 @@
+import type { HandlerCallback, IAgentRuntime, Memory } from '@elizaos/core';
+import { ChannelType, EventType, createUniqueUuid, logger } from '@elizaos/core';
+import type { AOService } from './AOService';
+import { AOEventType } from '../types';
+import type { DecodedAOMessage, ProcessMonitorOptions, ReceivedAOMessage } from '../types';
+import { decodeAOResult, formatReceivedMessage } from '../utils/format';
+
+const DEFAULT_MONITOR_INTERVAL = 15000;
+const DEFAULT_MONITOR_LIMIT = 25;
+
+/**
+ * Tails the results of selected processes for messages to the agent's wallet
+ *
+ * Each message, e.g. a token Credit-Notice, is passed to the agent as a
+ * message in a room for the sending process, so it can react, and emitted as
+ * an AO_MESSAGE_RECEIVED event. The
+ * last cursor read per process is kept in the runtime cache, so messages are
+ * not delivered twice across restarts. A newly watched process starts at its
+ * latest result; earlier messages are not replayed.
+ */
+export class AOProcessMonitor {
+  private processes = new Set<string>();
+  private connectedRooms = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | undefined = undefined;
+  private polling = false;
+  private options: Required<ProcessMonitorOptions> = {
+    interval: DEFAULT_MONITOR_INTERVAL,
+    limit: DEFAULT_MONITOR_LIMIT
+  };
+
+  constructor(
+    private readonly service: AOService,
+    private readonly runtime: IAgentRuntime
+  ) {}
+
+  private get cacheKey(): string {
+    return `ao/monitor/${this.runtime.agentId}`;
+  }
+
+  /**
+   * Start monitoring a process
+   * @param process - The process ID
+   */
+  watch(process: string): void {
+    this.processes.add(process);
+  }
+
+  /**
+   * Stop monitoring a process
+   * @param process - The process ID
+   * @returns Whether the process was being monitored
+   */
+  unwatch(process: string): boolean {
+    return this.processes.delete(process);
+  }
+
+  /**
+   * List the monitored processes
+   */
+  list(): string[] {
+    return [...this.processes];
+  }
+
+  /**
+   * Whether the monitor is polling in the background
+   */
+  isRunning(): boolean {
+    return this.timer !== undefined;
+  }
+
+  /**
+   * Poll the monitored processes in the background until stopped
+   * @param options - Optional poll interval and page size
+   */
+  start(options: ProcessMonitorOptions = {}): void {
+    this.options = {
+      interval: options.interval ?? this.options.interval,
+      limit: options.limit ?? this.options.limit
+    };
+    if (this.timer) return;
+
+    const schedule = () => {
+      this.timer = setTimeout(async () => {
+        await this.poll();
+        if (this.timer) schedule();
+      }, this.options.interval);
+      this.timer.unref?.();
+    };
+    schedule();
+    logger.info(`AOProcessMonitor: Monitoring ${this.processes.size} process(es) every ${this.options.interval}ms`);
+  }
+
+  /**
+   * Stop background polling
+   */
+  stop(): void {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Read new results from every monitored process once
+   *
+   * Failures are logged per process and retried on the next poll.
+   * @returns The messages delivered to the agent
+   */
+  async poll(): Promise<ReceivedAOMessage[]> {
+    const address = this.service.getAddress();
+    if (this.polling || !address) return [];
+
+    this.polling = true;
+    const received: ReceivedAOMessage[] = [];
+    try {
+      for (const process of this.processes) {
+        try {
+          received.push(...(await this.pollProcess(process, address)));
+        } catch (error) {
+          logger.warn(`AOProcessMonitor: Failed to read results for process ${process}:`, error);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+    return received;
+  }
+
+  /**
+   * Read one page of new results from a process and deliver messages to the agent
+   */
+  private async pollProcess(process: string, address: string): Promise<ReceivedAOMessage[]> {
+    const cursors = (await this.runtime.getCache<Record<string, string | null>>(this.cacheKey)) ?? {};
+
+    if (cursors[process] === undefined) {
+      const { edges } = await this.service.listResults(process, { sort: 'DESC', limit: 1 });
+      cursors[process] = edges[0]?.cursor ?? null;
+      await this.runtime.setCache(this.cacheKey, cursors);
+      return [];
+    }
+
+    const { edges } = await this.service.listResults(process, {
+      from: cursors[process] ?? undefined,
+      sort: 'ASC',
+      limit: this.options.limit
+    });
+
+    const received: ReceivedAOMessage[] = [];
+    for (const { cursor, result } of edges) {
+      const messages = decodeAOResult(result).messages.filter(message => message.target === address);
+      for (const [index, message] of messages.entries()) {
+        await this.deliver({ process, cursor, message }, index);
+        received.push({ process, cursor, message });
+      }
+      cursors[process] = cursor;
+      await this.runtime.setCache(this.cacheKey, cursors);
+    }
+    return received;
+  }
+
+  /**
+   * Hand a received message to the agent and emit it as an AO event
+   *
+   * The core MESSAGE_RECEIVED handler stores the memory and lets the agent
+   * respond; its replies are kept in the process's room, since an AO process
+   * cannot read chat replies.
+   */
+  private async deliver(received: ReceivedAOMessage, index: number): Promise<void> {
+    const { process, cursor, message } = received;
+    const entityId = createUniqueUuid(this.runtime, process);
+    const roomId = createUniqueUuid(this.runtime, `ao-process-${process}`);
+
+    if (!this.connectedRooms.has(roomId)) {
+      await this.runtime.ensureConnection({
+        entityId,
+        roomId,
+        worldId: createUniqueUuid(this.runtime, 'ao'),
+        worldName: 'AO',
+        name: process,
+        source: 'ao',
+        type: ChannelType.API,
+        channelId: process
+      });
+      this.connectedRooms.add(roomId);
+    }
+
+    const memory: Memory = {
+      id: createUniqueUuid(this.runtime, `${process}:${cursor}:${index}`),
+      entityId,
+      agentId: this.runtime.agentId,
+      roomId,
+      content: {
+        text: formatReceivedMessage(process, message),
+        source: 'ao',
+        process,
+        cursor,
+        action: message.action,
+        tags: message.tags
+      },
+      createdAt: Date.now()
+    };
+    const callback: HandlerCallback = async content => {
+      const reply: Memory = {
+        entityId: this.runtime.agentId,
+        agentId: this.runtime.agentId,
+        roomId,
+        content: { ...content, source: 'ao', inReplyTo: memory.id },
+        createdAt: Date.now()
+      };
+      await this.runtime.createMemory(reply, 'messages');
+      return [reply];
+    };
+    await this.runtime.emitEvent(EventType.MESSAGE_RECEIVED, { runtime: this.runtime, source: 'ao', message: memory, callback });
+    await this.runtime.emitEvent(AOEventType.MESSAGE_RECEIVED, { runtime: this.runtime, source: 'ao', ...received, memory });
+
+    logger.info(`AOProcessMonitor: Received ${message.action ?? 'message'} from process ${process}`);
+  }
+}
@@ -0,0 +1,110 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import type { KnownProcess } from '../types';
+import { withCacheLock } from '../utils/cache';
+
+/**
+ * Words that commonly surround a process label in a request
+ */
+const LABEL_NOISE = /^(my|our|the)\s+|\s+process$/g;
+
+/**
+ * Normalize a label or reference for comparison
+ */
+function normalizeLabel(label: string): string {
+  return label.trim().toLowerCase().replace(LABEL_NOISE, '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Registry of processes the agent knows about, persisted in the runtime cache
+ *
+ * Entries survive restarts and are scoped to the agent, so users can refer to
+ * processes by label instead of repeating 43-character IDs. Updates are
+ * serialized per runtime, so concurrent registrations are all kept.
+ */
+export class AOProcessRegistry {
+  constructor(private readonly runtime: IAgentRuntime) {}
+
+  private get cacheKey(): string {
+    return `ao/processes/${this.runtime.agentId}`;
+  }
+
+  /**
+   * List every known process, most recently registered first
+   */
+  async list(): Promise<KnownProcess[]> {
+    const processes = (await this.runtime.getCache<KnownProcess[]>(this.cacheKey)) ?? [];
+    return [...processes].sort((a, b) => b.registeredAt - a.registeredAt);
+  }
+
+  /**
+   * Get a known process by ID
+   * @param processId - The process ID
+   */
+  async get(processId: string): Promise<KnownProcess | undefined> {
+    return (await this.list()).find(entry => entry.processId === processId);
+  }
+
+  /**
+   * Add a process, or merge new labels and details into an existing entry
+   * @param entry - The process ID and any labels or details to record
+   * @returns The stored entry
+   */
+  async register(
+    entry: Pick<KnownProcess, 'processId'> & Partial<Omit<KnownProcess, 'processId' | 'registeredAt'>>
+  ): Promise<KnownProcess> {
+    return withCacheLock(this.runtime, this.cacheKey, async () => {
+      const processes = await this.list();
+      const existing = processes.find(known => known.processId === entry.processId);
+      const labels = [...(existing?.labels ?? []), ...(entry.labels ?? [])]
+        .map(label => label.trim())
+        .filter((label, index, all) => label && all.findIndex(other => normalizeLabel(other) === normalizeLabel(label)) === index);
+
+      const stored: KnownProcess = {
+        processId: entry.processId,
+        labels,
+        module: entry.module ?? existing?.module,
+        scheduler: entry.scheduler ?? existing?.scheduler,
+        createdAt: entry.createdAt ?? existing?.createdAt,
+        registeredAt: existing?.registeredAt ?? Date.now(),
+        source: existing?.source === 'spawned' ? 'spawned' : entry.source ?? 'registered'
+      };
+
+      await this.runtime.setCache(this.cacheKey, [
+        stored,
+        ...processes.filter(known => known.processId !== entry.processId)
+      ]);
+      return stored;
+    });
+  }
+
+  /**
+   * Remove a process from the registry
+   * @param processId - The process ID
+   * @returns Whether the process was known
+   */
+  async remove(processId: string): Promise<boolean> {
+    return withCacheLock(this.runtime, this.cacheKey, async () => {
+      const processes = await this.list();
+      const remaining = processes.filter(known => known.processId !== processId);
+      if (remaining.length === processes.length) return false;
+
+      await this.runtime.setCache(this.cacheKey, remaining);
+      return true;
+    });
+  }
+
+  /**
+   * Find a known process by ID or label
+   *
+   * Labels match case-insensitively, ignoring phrasing such as "my ... process".
+   * @param reference - A process ID or label, e.g. "my counter process"
+   */
+  async resolve(reference: string): Promise<KnownProcess | undefined> {
+    const processes = await this.list();
+    const normalized = normalizeLabel(reference);
+    return (
+      processes.find(known => known.processId === reference.trim()) ??
+      processes.find(known => known.labels.some(label => normalizeLabel(label) === normalized))
+    );
+  }
+}
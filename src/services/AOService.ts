@@ -1,19 +1,75 @@
 import type { IAgentRuntime, Metadata } from '@elizaos/core';
 import { Service } from '@elizaos/core';
 import { logger } from '@elizaos/core';
-import { 
-  connect, 
-  createSigner, 
-  spawn, 
-  message, 
-  result, 
-  dryrun
-} from '@permaweb/aoconnect';
-import type { AOServiceConfig, AOResult } from '../types';
+import { connect, createSigner } from '@permaweb/aoconnect';
+import type * as aoconnect from '@permaweb/aoconnect';
+import { getAOConfig } from '../config';
+import type { AOPluginConfig } from '../config';
+import type {
+  AONetworkProfile,
+  AOServiceConfig,
+  AOResult,
+  AOResultsPage,
+  AOCallOptions,
+  AOTransactionEventPayload,
+  AwaitResultOptions,
+  DescribeProcessOptions,
+  EvalLuaResult,
+  ListResultsOptions,
+  LuaLoadResult,
+  LuaSource,
+  ProcessDescription,
+  RetryPolicy,
+  SendAndAwaitResult,
+  SpawnAndLoadOptions,
+  ResolvedSpawn,
+  SpawnAndLoadResult,
+  SpawnPreset,
+  SpawnRequest,
+  SpawnTarget
+} from '../types';
+import { AOEventType } from '../types';
+import { AOError, AOErrorCode, getAOErrorCode, getAOResultError } from '../utils/errors';
+import { decodeAOResult, formatAOResult } from '../utils/format';
+import { getOutputText } from '../utils/output';
+import { parseProcessInfo } from '../utils/introspection';
+import { readLuaSources } from '../utils/lua';
+import { isArweaveId } from '../utils/validation';
+import { AOGraphQLClient } from './AOGraphQLClient';
+import { AOHyperbeamClient } from './AOHyperbeamClient';
+import { AOMessageLog } from './AOMessageLog';
+import { AOProcessMonitor } from './AOProcessMonitor';
+import { AOProcessRegistry } from './AOProcessRegistry';
+import { AOTokenClient } from './AOTokenClient';
+import { DEFAULT_RETRY_POLICY, cancelledError, sleep, withRetry } from '../utils/retry';
+import { getWalletAddress, loadWallet } from '../utils/wallet';
+
+const DEFAULT_TIMEOUT = 30000;
+const DEFAULT_GRAPHQL_URL = 'https://arweave.net/graphql';
+const DEFAULT_POLL_INITIAL_DELAY = 500;
+const DEFAULT_POLL_MAX_DELAY = 5000;
+const PROCESS_INFO_TTL = 10 * 60 * 1000;
+const DEFAULT_RESULTS_LIMIT = 25;
+const DEFAULT_NETWORK = 'default';
 
 /**
- * Configuration interface for AOService
+ * Wallet of the legacynet MU, which aos processes must trust to accept
+ * messages it pushes between processes
  */
+const LEGACYNET_AUTHORITY = 'fcoN_xJeisVsPXA-trzVAuIiqO3ydLQxM-L4XbrQKzY';
+
+/**
+ * The aoconnect operations the service uses, bound to its own MU, CU and gateway
+ */
+type AOConnectClient = Pick<typeof aoconnect, 'spawn' | 'message' | 'result' | 'results' | 'dryrun'>;
+
+/**
+ * Arguments of aoconnect's legacy `connect()` overload, plus the `fetch` it
+ * accepts but does not declare
+ */
+type LegacyConnectArgs = (typeof connect extends { (args: infer Legacy): unknown; (args: infer Mainnet): unknown }
+  ? Legacy
+  : never) & { fetch?: typeof fetch };
 
 /**
  * Service class for interacting with AO processes
@@ -23,7 +79,14 @@ export class AOService extends Service {
   static serviceType = 'ao';
   
   private signer: ReturnType<typeof createSigner> | undefined = undefined;
+  private address: string | undefined = undefined;
   private initialized = false;
+  private clients = new Map<string, AOConnectClient | AOHyperbeamClient>();
+  private pluginConfig: AOPluginConfig | undefined = undefined;
+  private tokenClients = new Map<string, AOTokenClient>();
+  private processDescriptions = new Map<string, ProcessDescription>();
+  private monitor: AOProcessMonitor | undefined = undefined;
+  private graphqlClient: AOGraphQLClient | undefined = undefined;
   config: AOServiceConfig;
 
   constructor(runtime: IAgentRuntime, config: AOServiceConfig = {}) {
@@ -45,39 +108,31 @@ export class AOService extends Service {
    */
   async initialize(runtime: IAgentRuntime): Promise<void> {
     try {
-      // Get configuration from global store
-      const config = (global as any).__aoConfig;
+      // Get the plugin configuration validated for this runtime
+      const config = getAOConfig(runtime);
+      this.pluginConfig = config;
       
-      // Initialize signer if wallet is provided
-      if (this.config.wallet) {
-        this.signer = createSigner(this.config.wallet);
-        logger.info('AOService: Signer initialized');
+      // Initialize signer from the explicit wallet or from settings
+      const wallet = this.config.wallet ?? (await loadWallet(runtime, config));
+      if (wallet) {
+        this.config.wallet = wallet;
+        this.signer = createSigner(wallet);
+        if (typeof wallet.n === 'string') {
+          this.address = getWalletAddress(wallet);
+        }
+        logger.info(`AOService: Signer initialized${this.address ? ` for ${this.address}` : ''}`);
+      } else {
+        logger.warn('AOService: No wallet configured, write operations are disabled');
       }
 
-      // Setup aoconnect with custom configuration if provided
-      const connectArgs: any = {};
-      if (this.config.mode || config?.AO_MODE) {
-        connectArgs.MODE = this.config.mode || config.AO_MODE;
-      }
-      if (this.config.gatewayUrl || config?.AO_GATEWAY_URL) {
-        connectArgs.GATEWAY_URL = this.config.gatewayUrl || config.AO_GATEWAY_URL;
-      }
-      if (this.config.graphqlUrl || config?.AO_GRAPHQL_URL) {
-        connectArgs.GRAPHQL_URL = this.config.graphqlUrl || config.AO_GRAPHQL_URL;
-      }
-      if (this.config.muUrl || config?.AO_MU_URL) {
-        connectArgs.MU_URL = this.config.muUrl || config.AO_MU_URL;
-      }
-      if (this.config.cuUrl || config?.AO_CU_URL) {
-        connectArgs.CU_URL = this.config.cuUrl || config.AO_CU_URL;
-      }
-
-      if (Object.keys(connectArgs).length > 0) {
-        connect(connectArgs);
-      }
+      // Connect to the default network up front so a bad profile fails initialization
+      const { name, profile } = this.getNetwork();
+      this.clients.set(name, this.connectNetwork(name, profile));
 
       this.initialized = true;
       logger.info('AOService initialized successfully');
+
+      await this.startMonitor(runtime, config);
     } catch (error) {
       logger.error('AOService initialization failed:', error);
       throw error;
@@ -85,11 +140,44 @@ export class AOService extends Service {
   }
 
   async stop(): Promise<void> {
+    this.monitor?.stop();
+    this.monitor = undefined;
     this.initialized = false;
+    this.clients.clear();
     this.signer = undefined;
+    this.address = undefined;
+    this.tokenClients.clear();
+    this.processDescriptions.clear();
     logger.info('AOService stopped');
   }
 
+  /**
+   * Start monitoring the processes listed in the config or AO_MONITOR_PROCESSES
+   *
+   * Entries may be process IDs or labels from the process registry. Failing
+   * to start the monitor does not fail initialization.
+   */
+  private async startMonitor(runtime: IAgentRuntime, config: AOPluginConfig | undefined): Promise<void> {
+    const configured = this.config.monitorProcesses ?? config?.AO_MONITOR_PROCESSES?.split(',') ?? [];
+    const references = configured.map(reference => reference.trim()).filter(Boolean);
+    if (references.length === 0) return;
+    if (this.isMainnet()) {
+      logger.warn('AOService: Process monitoring reads compute unit results, which are only available in legacy mode');
+      return;
+    }
+
+    try {
+      const registry = new AOProcessRegistry(runtime);
+      const monitor = this.getMonitor();
+      for (const reference of references) {
+        monitor.watch((await registry.resolve(reference))?.processId ?? reference);
+      }
+      monitor.start({ interval: this.config.monitorInterval ?? config?.AO_MONITOR_INTERVAL });
+    } catch (error) {
+      logger.warn('AOService: Failed to start the process monitor:', error);
+    }
+  }
+
   get capabilityDescription(): string {
     return 'Service for interacting with AO processes for spawning, messaging, and reading results';
   }
@@ -103,35 +191,527 @@ export class AOService extends Service {
     }
   }
 
+  /**
+   * Create the client for a network; unset URLs use the SDK defaults
+   *
+   * Mainnet mode talks to a HyperBEAM node, which only accepts signed
+   * requests, so it needs both the node URL and a wallet.
+   */
+  private connectNetwork(name: string, profile: AONetworkProfile): AOConnectClient | AOHyperbeamClient {
+    if (profile.mode === 'mainnet') {
+      if (!profile.hyperbeamUrl) {
+        throw new AOError(
+          AOErrorCode.CONFIGURATION_ERROR,
+          `Network "${name}" is in mainnet mode but has no HyperBEAM node URL`,
+          { network: name },
+          ['Set AO_HYPERBEAM_URL, or hyperbeamUrl in the network profile, to the URL of a HyperBEAM node']
+        );
+      }
+      if (!this.signer) {
+        throw new AOError(
+          AOErrorCode.CONFIGURATION_ERROR,
+          `Network "${name}" is in mainnet mode, which requires a wallet to sign every request`,
+          { network: name },
+          [
+            'Set AO_WALLET_JWK to the JSON contents of an Arweave keyfile',
+            'Or set AO_WALLET_PATH to the location of an Arweave keyfile'
+          ]
+        );
+      }
+
+      const { request } = connect({
+        MODE: 'mainnet',
+        URL: profile.hyperbeamUrl,
+        signer: this.signer,
+        ...(profile.gatewayUrl ? { GATEWAY_URL: profile.gatewayUrl } : {}),
+        ...(profile.graphqlUrl ? { GRAPHQL_URL: profile.graphqlUrl } : {})
+      });
+      return new AOHyperbeamClient(request, profile.executionDevice);
+    }
+
+    const connectArgs: LegacyConnectArgs = { MODE: 'legacy' };
+    if (profile.gatewayUrl) {
+      connectArgs.GATEWAY_URL = profile.gatewayUrl;
+    }
+    if (profile.graphqlUrl) {
+      connectArgs.GRAPHQL_URL = profile.graphqlUrl;
+    }
+    if (profile.muUrl) {
+      connectArgs.MU_URL = profile.muUrl;
+    }
+    if (profile.cuUrl) {
+      connectArgs.CU_URL = profile.cuUrl;
+    }
+    if (this.config.fetch) {
+      connectArgs.fetch = this.config.fetch;
+    }
+    return connect(connectArgs);
+  }
+
+  /**
+   * Get the aoconnect client for a network, connecting on first use
+   * @param network - Profile name; defaults to the default network
+   */
+  private getClient(network?: string): AOConnectClient | AOHyperbeamClient {
+    this.ensureInitialized();
+    const { name, profile } = this.getNetwork(network);
+    let client = this.clients.get(name);
+    if (!client) {
+      client = this.connectNetwork(name, profile);
+      this.clients.set(name, client);
+    }
+    return client;
+  }
+
+  /**
+   * Get the aoconnect client for a feature only legacy mode provides
+   *
+   * HyperBEAM nodes have no compute unit endpoints for dry runs or result
+   * listings, so these fail with UNSUPPORTED_OPERATION in mainnet mode.
+   * @param feature - Name of the feature, used in the error
+   * @param network - Profile name; defaults to the default network
+   */
+  private getLegacyClient(feature: string, network?: string): AOConnectClient {
+    const client = this.getClient(network);
+    if (client instanceof AOHyperbeamClient) {
+      const { name } = this.getNetwork(network);
+      throw new AOError(
+        AOErrorCode.UNSUPPORTED_OPERATION,
+        `${feature} ${feature.endsWith('s') ? 'are' : 'is'} only available in legacy mode, and network "${name}" is in mainnet mode`,
+        { network: name, feature },
+        ['Use a network profile in legacy mode for this operation', 'Send a message and read its result instead']
+      );
+    }
+    return client;
+  }
+
+  /**
+   * Check whether a network is in mainnet mode
+   * @param network - Profile name; defaults to the default network
+   */
+  isMainnet(network?: string): boolean {
+    return this.getNetwork(network).profile.mode === 'mainnet';
+  }
+
+  /**
+   * Resolve the default operation timeout in milliseconds
+   */
+  private getDefaultTimeout(): number {
+    return this.config.defaultTimeout ?? this.pluginConfig?.AO_DEFAULT_TIMEOUT ?? DEFAULT_TIMEOUT;
+  }
+
+  /**
+   * Resolve the Arweave GraphQL endpoint of a network
+   * @param network - Profile name; defaults to the default network
+   */
+  private getGraphQLUrl(network?: string): string {
+    return this.getNetwork(network).profile.graphqlUrl ?? DEFAULT_GRAPHQL_URL;
+  }
+
+  /**
+   * Resolve the retry policy for a call
+   *
+   * Per-call overrides take precedence over the service config, which takes
+   * precedence over the AO_RETRY_* plugin settings.
+   * @param override - Per-call policy, or false to disable retries
+   */
+  private getRetryPolicy(override?: RetryPolicy | false): Required<RetryPolicy> {
+    const config = this.pluginConfig;
+    const sources: (RetryPolicy | undefined)[] = [
+      { maxAttempts: config?.AO_RETRY_MAX_ATTEMPTS, baseDelay: config?.AO_RETRY_BASE_DELAY },
+      this.config.retry,
+      override || undefined
+    ];
+    const policy = sources.reduce<Required<RetryPolicy>>(
+      (merged, source) => ({
+        maxAttempts: source?.maxAttempts ?? merged.maxAttempts,
+        baseDelay: source?.baseDelay ?? merged.baseDelay,
+        maxDelay: source?.maxDelay ?? merged.maxDelay,
+        jitter: source?.jitter ?? merged.jitter,
+        retryOn: source?.retryOn ?? merged.retryOn
+      }),
+      { ...DEFAULT_RETRY_POLICY }
+    );
+
+    if (override === false) {
+      policy.maxAttempts = 1;
+    }
+    return policy;
+  }
+
+  /**
+   * Run an operation bounded by a timeout and an optional abort signal
+   *
+   * aoconnect does not accept a signal, so the underlying request is not
+   * aborted; the caller is released and receives a TIMEOUT error instead.
+   * @param operation - Human readable name of the operation, used in errors
+   * @param task - The operation to run
+   * @param options - Per-call timeout and signal
+   * @param suggestions - Suggestions to attach to a timeout error
+   */
+  private withTimeout<T>(
+    operation: string,
+    task: () => Promise<T>,
+    options: AOCallOptions = {},
+    suggestions: string[] = []
+  ): Promise<T> {
+    const timeout = options.timeout ?? this.getDefaultTimeout();
+    const { signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(cancelledError(operation));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const cleanup = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      const onAbort = () => {
+        cleanup();
+        reject(cancelledError(operation));
+      };
+
+      if (timeout > 0 && Number.isFinite(timeout)) {
+        timer = setTimeout(() => {
+          cleanup();
+          reject(
+            new AOError(
+              AOErrorCode.TIMEOUT,
+              `${operation} timed out after ${timeout}ms`,
+              { operation, timeout },
+              [
+                ...suggestions,
+                'Retry the operation; AO units can be slow under load',
+                'Increase AO_DEFAULT_TIMEOUT or pass a larger per-call timeout'
+              ]
+            )
+          );
+        }, timeout);
+      }
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      task().then(
+        value => {
+          cleanup();
+          resolve(value);
+        },
+        error => {
+          cleanup();
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Get the signer required for write operations
+   */
+  private requireSigner(): ReturnType<typeof createSigner> {
+    if (!this.signer) {
+      throw new AOError(
+        AOErrorCode.CONFIGURATION_ERROR,
+        'No wallet configured for signing AO messages',
+        undefined,
+        [
+          'Set AO_WALLET_JWK to the JSON contents of an Arweave keyfile',
+          'Or set AO_WALLET_PATH to the location of an Arweave keyfile',
+          'Either setting can also be provided in the character settings'
+        ]
+      );
+    }
+    return this.signer;
+  }
+
+  /**
+   * Update the agent's message log without failing the operation that sent
+   * or read the message
+   */
+  private async logMessage(update: (log: AOMessageLog) => Promise<unknown>): Promise<void> {
+    try {
+      await update(new AOMessageLog(this.runtime));
+    } catch (error) {
+      logger.warn('AOService: Failed to update the message log:', error);
+    }
+  }
+
+  /**
+   * Emit a TRANSACTION_CONFIRMED or TRANSACTION_FAILED event without failing
+   * the operation it reports on
+   */
+  private async emitTransactionEvent(
+    type: AOEventType.TRANSACTION_CONFIRMED | AOEventType.TRANSACTION_FAILED,
+    event: Omit<AOTransactionEventPayload, 'runtime' | 'source'>,
+    error?: unknown
+  ): Promise<void> {
+    const payload: AOTransactionEventPayload = { runtime: this.runtime, source: 'ao', ...event };
+    if (error !== undefined) {
+      payload.errorCode = getAOErrorCode(error);
+      payload.error = error instanceof Error ? error.message : String(error);
+    }
+
+    try {
+      await this.runtime.emitEvent(type, payload);
+    } catch (emitError) {
+      logger.warn(`AOService: Failed to emit ${type}:`, emitError);
+    }
+  }
+
+  /**
+   * Emit the event for a sent message's evaluated result
+   */
+  private async emitResultEvent(
+    process: string,
+    messageId: string,
+    tags: { name: string; value: string }[],
+    resultData: AOResult
+  ): Promise<void> {
+    const evaluationError = getAOResultError(resultData);
+    await this.emitTransactionEvent(
+      evaluationError ? AOEventType.TRANSACTION_FAILED : AOEventType.TRANSACTION_CONFIRMED,
+      { operation: 'result', process, messageId, tags, result: decodeAOResult(resultData), summary: formatAOResult(resultData) },
+      evaluationError
+    );
+  }
+
+  /**
+   * Get the network profiles, by name
+   *
+   * The top-level URLs, mode and default scheduler form the "default"
+   * profile; profiles from AO_NETWORKS and the service config are added to
+   * it, the latter taking precedence.
+   */
+  getNetworks(): Record<string, AONetworkProfile> {
+    const config = this.pluginConfig;
+    return {
+      [DEFAULT_NETWORK]: {
+        mode: this.config.mode || config?.AO_MODE,
+        gatewayUrl: this.config.gatewayUrl || config?.AO_GATEWAY_URL,
+        graphqlUrl: this.config.graphqlUrl || config?.AO_GRAPHQL_URL,
+        muUrl: this.config.muUrl || config?.AO_MU_URL,
+        cuUrl: this.config.cuUrl || config?.AO_CU_URL,
+        hyperbeamUrl: this.config.hyperbeamUrl ?? config?.AO_HYPERBEAM_URL,
+        executionDevice: this.config.executionDevice ?? config?.AO_EXECUTION_DEVICE,
+        scheduler: this.config.defaultScheduler ?? config?.AO_DEFAULT_SCHEDULER
+      },
+      ...config?.AO_NETWORKS,
+      ...this.config.networks
+    };
+  }
+
+  /**
+   * Look up a network profile
+   * @param network - Profile name; defaults to AO_DEFAULT_NETWORK, then "default"
+   * @returns The profile and the name it was found under
+   */
+  getNetwork(network?: string): { name: string; profile: AONetworkProfile } {
+    const name = network ?? this.config.defaultNetwork ?? this.pluginConfig?.AO_DEFAULT_NETWORK ?? DEFAULT_NETWORK;
+    const networks = this.getNetworks();
+    const profile = networks[name];
+    if (!profile) {
+      const names = Object.keys(networks);
+      throw new AOError(
+        AOErrorCode.VALIDATION_ERROR,
+        `Unknown network "${name}"`,
+        { network: name, networks: names },
+        [`Use one of the configured networks: ${names.join(', ')}`, 'Define network profiles in AO_NETWORKS']
+      );
+    }
+    return { name, profile };
+  }
+
+  /**
+   * Get the configured spawn presets, by name
+   */
+  getSpawnPresets(): Record<string, SpawnPreset> {
+    return this.config.presets ?? this.pluginConfig?.AO_SPAWN_PRESETS ?? {};
+  }
+
+  /**
+   * Work out the module, scheduler and tags for a spawn
+   *
+   * Explicit IDs take precedence over the preset, which takes precedence over
+   * AO_DEFAULT_MODULE and the network's scheduler (AO_DEFAULT_SCHEDULER unless
+   * its profile names one). A Name tag (the label, or
+   * "default" as in aos) and an Authority tag are added unless given; in
+   * mainnet mode the Authority tag is only added when AO_AUTHORITY is set,
+   * since the legacynet MU does not push messages there.
+   * @param request - The preset, IDs, tags and label requested
+   * @returns The parameters to spawn with and any Lua sources from the preset
+   */
+  resolveSpawn(request: SpawnRequest): ResolvedSpawn {
+    const config = this.pluginConfig;
+    const presets = this.getSpawnPresets();
+    const preset = request.preset ? presets[request.preset] : undefined;
+    if (request.preset && !preset) {
+      const names = Object.keys(presets);
+      throw new AOError(
+        AOErrorCode.VALIDATION_ERROR,
+        `Unknown spawn preset "${request.preset}"`,
+        { preset: request.preset, presets: names },
+        [names.length ? `Use one of the configured presets: ${names.join(', ')}` : 'Define presets in AO_SPAWN_PRESETS']
+      );
+    }
+
+    const module = request.module ?? preset?.module ?? this.config.defaultModule ?? config?.AO_DEFAULT_MODULE;
+    const scheduler =
+      request.scheduler ??
+      preset?.scheduler ??
+      this.getNetwork(request.network).profile.scheduler ??
+      this.config.defaultScheduler ??
+      config?.AO_DEFAULT_SCHEDULER;
+    if (!module || !scheduler) {
+      throw new AOError(
+        AOErrorCode.VALIDATION_ERROR,
+        `No ${!module ? 'module' : 'scheduler'} given and none configured`,
+        { preset: request.preset },
+        [
+          'Pass the module ID and scheduler address, or name a spawn preset',
+          'Or set AO_DEFAULT_MODULE and AO_DEFAULT_SCHEDULER'
+        ]
+      );
+    }
+
+    const tags = new Map<string, string>();
+    for (const tag of [...(preset?.tags ?? []), ...(request.tags ?? [])]) {
+      tags.set(tag.name, tag.value);
+    }
+    if (!tags.has('Name')) {
+      tags.set('Name', request.label ?? 'default');
+    }
+    const authority =
+      this.config.authority ?? config?.AO_AUTHORITY ?? (this.isMainnet(request.network) ? undefined : LEGACYNET_AUTHORITY);
+    if (!tags.has('Authority') && authority) {
+      tags.set('Authority', authority);
+    }
+
+    return {
+      module,
+      scheduler,
+      tags: [...tags].map(([name, value]) => ({ name, value })),
+      sources: preset?.sources ?? []
+    };
+  }
+
+  /**
+   * Check a module and scheduler before spawning a process with them
+   *
+   * Both IDs must be well-formed, the module must be a transaction tagged
+   * `Type: Module` with a `Module-Format`, and in legacy mode the scheduler
+   * must have published a Scheduler-Location record with a `Url`; in mainnet
+   * mode the HyperBEAM node schedules the process. Every problem found is
+   * reported in one VALIDATION_ERROR, so a typo does not surface later as an
+   * opaque MU error.
+   * @param module - The module ID
+   * @param scheduler - The scheduler address
+   * @param options - Optional per-call timeout and abort signal
+   * @returns The module's format and memory limit, and the scheduler's URL
+   */
+  async validateSpawnTarget(module: string, scheduler: string, options: AOCallOptions = {}): Promise<SpawnTarget> {
+    const problems: string[] = [];
+    if (!isArweaveId(module)) {
+      problems.push(`Module ID "${module}" is not a 43-character base64url Arweave ID`);
+    }
+    if (!isArweaveId(scheduler)) {
+      problems.push(`Scheduler address "${scheduler}" is not a 43-character base64url Arweave address`);
+    }
+
+    let target: SpawnTarget | undefined;
+    if (problems.length === 0) {
+      const graphql = this.getGraphQLClient();
+      const { name, profile } = this.getNetwork(options.network);
+      const mainnet = profile.mode === 'mainnet';
+      const [moduleTransaction, location] = await Promise.all([
+        graphql.getTransaction(module, options),
+        mainnet ? undefined : graphql.findSchedulerLocation(scheduler, options)
+      ]);
+      const moduleTags = Object.fromEntries((moduleTransaction?.tags ?? []).map(tag => [tag.name, tag.value]));
+      const url = mainnet ? profile.hyperbeamUrl : location?.tags.find(tag => tag.name === 'Url')?.value;
+
+      if (!moduleTransaction) {
+        problems.push(`Module ${module} was not found on the gateway`);
+      } else if (moduleTags.Type !== 'Module') {
+        problems.push(`Transaction ${module} is not an AO module (Type: ${moduleTags.Type ?? 'none'})`);
+      } else if (!moduleTags['Module-Format']) {
+        problems.push(`Module ${module} has no Module-Format tag`);
+      }
+      if (mainnet) {
+        if (!url) {
+          problems.push(`Network "${name}" has no HyperBEAM node URL to schedule the process`);
+        }
+      } else if (!location) {
+        problems.push(`Scheduler ${scheduler} has not published a Scheduler-Location record`);
+      } else if (!url) {
+        problems.push(`The Scheduler-Location record of ${scheduler} has no Url tag`);
+      }
+
+      if (problems.length === 0) {
+        target = {
+          module: { id: module, format: moduleTags['Module-Format'], memoryLimit: moduleTags['Memory-Limit'] },
+          scheduler: { address: scheduler, url: url! }
+        };
+      }
+    }
+
+    if (!target) {
+      throw new AOError(
+        AOErrorCode.VALIDATION_ERROR,
+        `Cannot spawn with this module and scheduler: ${problems.join('; ')}`,
+        { module, scheduler, problems },
+        [
+          'Use the transaction ID of a published AO module',
+          'Use the wallet address of a scheduler, e.g. _GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA on legacynet'
+        ]
+      );
+    }
+    return target;
+  }
+
   /**
    * Spawn a new AO process
    * @param module - The module ID to use for the process
    * @param scheduler - The scheduler to assign the process to
    * @param tags - Optional tags to attach to the spawn message
    * @param data - Optional data to include in the spawn message
+   * @param options - Optional per-call timeout and abort signal
    * @returns The process ID of the newly spawned process
    */
   async spawnProcess(
     module: string,
     scheduler: string,
     tags?: { name: string; value: string }[],
-    data?: string
+    data?: string,
+    options?: AOCallOptions
   ): Promise<string> {
-    this.ensureInitialized();
+    const client = this.getClient(options?.network);
+    const signer = this.requireSigner();
     
     try {
-      const processId = await spawn({
-        module,
-        scheduler,
-        signer: this.signer,
-        tags,
-        data
-      });
+      const processId = await this.withTimeout(
+        'Spawning process',
+        () => client.spawn({
+          module,
+          scheduler,
+          signer,
+          tags,
+          data
+        }),
+        options,
+        ['The spawn may still have been accepted; check for the process before spawning again']
+      );
       
       logger.info(`AOService: Process spawned with ID ${processId}`);
+      await this.emitTransactionEvent(AOEventType.TRANSACTION_CONFIRMED, {
+        operation: 'spawn',
+        process: processId,
+        messageId: processId,
+        tags: tags ?? []
+      });
       return processId;
     } catch (error) {
       logger.error('AOService: Failed to spawn process:', error);
+      await this.emitTransactionEvent(AOEventType.TRANSACTION_FAILED, { operation: 'spawn', tags: tags ?? [] }, error);
       throw error;
     }
   }
@@ -142,29 +722,54 @@ export class AOService extends Service {
    * @param data - The data to include in the message
    * @param tags - Optional tags to attach to the message
    * @param anchor - Optional anchor value
-   * @returns The message ID of the sent message
+   * @param options - Optional per-call timeout and abort signal
+   * @returns The message ID of the sent message; on a mainnet network, the
+   * slot the process's scheduler assigned to it, which is only unique within
+   * that process
    */
   async sendMessage(
     process: string,
     data: string,
     tags?: { name: string; value: string }[],
-    anchor?: string
+    anchor?: string,
+    options?: AOCallOptions
   ): Promise<string> {
-    this.ensureInitialized();
+    const client = this.getClient(options?.network);
+    const signer = this.requireSigner();
     
     try {
-      const messageId = await message({
-        process,
-        data,
-        tags,
-        anchor,
-        signer: this.signer
-      });
+      // Resending is only safe when the anchor makes the message idempotent
+      const operation = `Sending message to process ${process}`;
+      const messageId = await withRetry(
+        operation,
+        () => this.withTimeout(
+          operation,
+          () => client.message({
+            process,
+            data,
+            tags,
+            anchor,
+            signer
+          }),
+          options,
+          ['The message may still have been delivered; check the process before resending']
+        ),
+        this.getRetryPolicy(anchor ? options?.retry : false),
+        options?.signal
+      );
       
       logger.info(`AOService: Message sent with ID ${messageId} to process ${process}`);
+      await this.logMessage(log => log.record(process, messageId, data, tags));
+      await this.emitTransactionEvent(AOEventType.TRANSACTION_CONFIRMED, {
+        operation: 'message',
+        process,
+        messageId,
+        tags: tags ?? []
+      });
       return messageId;
     } catch (error) {
       logger.error(`AOService: Failed to send message to process ${process}:`, error);
+      await this.emitTransactionEvent(AOEventType.TRANSACTION_FAILED, { operation: 'message', process, tags: tags ?? [] }, error);
       throw error;
     }
   }
@@ -173,18 +778,31 @@ export class AOService extends Service {
    * Read the result of a message evaluation from an AO process
    * @param process - The process ID to read from
    * @param messageId - The message ID to read the result for
+   * @param options - Optional per-call timeout and abort signal
    * @returns The result of the message evaluation
    */
-  async readResult(process: string, messageId: string): Promise<AOResult> {
-    this.ensureInitialized();
+  async readResult(process: string, messageId: string, options?: AOCallOptions): Promise<AOResult> {
+    const client = this.getClient(options?.network);
     
     try {
-      const resultData = await result({
-        process,
-        message: messageId
-      });
+      const operation = `Reading result for message ${messageId}`;
+      const resultData = await withRetry(
+        operation,
+        () => this.withTimeout(
+          operation,
+          () => client.result({
+            process,
+            message: messageId
+          }),
+          options,
+          ['The compute unit may still be evaluating the message; try reading the result again later']
+        ),
+        this.getRetryPolicy(options?.retry),
+        options?.signal
+      );
       
       logger.info(`AOService: Read result for message ${messageId} from process ${process}`);
+      await this.logMessage(log => log.markRead(process, messageId, !!getAOResultError(resultData)));
       return resultData;
     } catch (error) {
       logger.error(`AOService: Failed to read result for message ${messageId} from process ${process}:`, error);
@@ -192,29 +810,432 @@ export class AOService extends Service {
     }
   }
 
+  /**
+   * Send a message and wait for its evaluated result
+   *
+   * The result is polled with exponential backoff until it is available or
+   * the timeout (AO_DEFAULT_TIMEOUT unless overridden) expires. Only
+   * transient failures (the retry policy's `retryOn` codes) are polled
+   * through; any other error, such as a 404 for an unknown message, is
+   * thrown straight away.
+   * @param process - The process ID to send the message to
+   * @param data - The data to include in the message
+   * @param tags - Optional tags to attach to the message
+   * @param anchor - Optional anchor value
+   * @param options - Optional polling settings
+   * @returns The message ID and the result of its evaluation
+   */
+  async sendAndAwaitResult(
+    process: string,
+    data: string,
+    tags?: { name: string; value: string }[],
+    anchor?: string,
+    options: AwaitResultOptions = {}
+  ): Promise<SendAndAwaitResult> {
+    const { signal, network } = options;
+    const timeout = options.timeout ?? this.getDefaultTimeout();
+    const deadline = Date.now() + timeout;
+    const messageId = await this.sendMessage(process, data, tags, anchor, { timeout, signal, retry: options.retry, network });
+
+    const maxDelay = options.maxDelay ?? DEFAULT_POLL_MAX_DELAY;
+    const { retryOn } = this.getRetryPolicy(options.retry);
+    let nextDelay = options.initialDelay ?? DEFAULT_POLL_INITIAL_DELAY;
+    let attempts = 0;
+    let lastError: unknown;
+
+    while (Date.now() < deadline) {
+      attempts++;
+      try {
+        const resultData = await this.readResult(process, messageId, {
+          timeout: Math.max(deadline - Date.now(), 1),
+          signal,
+          retry: false,
+          network
+        });
+        await this.emitResultEvent(process, messageId, tags ?? [], resultData);
+        return { messageId, result: resultData };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        if (!retryOn.includes(getAOErrorCode(error))) {
+          await this.emitTransactionEvent(
+            AOEventType.TRANSACTION_FAILED,
+            { operation: 'result', process, messageId, tags: tags ?? [] },
+            error
+          );
+          throw error;
+        }
+        lastError = error;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+      await sleep(Math.min(nextDelay, remaining), signal, 'Waiting for result');
+      nextDelay = Math.min(nextDelay * 2, maxDelay);
+    }
+
+    const timeoutError = new AOError(
+      AOErrorCode.TIMEOUT,
+      `Timed out after ${timeout}ms waiting for the result of message ${messageId}`,
+      {
+        process,
+        messageId,
+        attempts,
+        originalError: lastError instanceof Error ? lastError.message : String(lastError)
+      },
+      [
+        `The message was sent; read its result later with READ_AO_RESULT using message ID ${messageId}`,
+        'Increase AO_DEFAULT_TIMEOUT if the process takes long to evaluate'
+      ]
+    );
+    await this.emitTransactionEvent(
+      AOEventType.TRANSACTION_FAILED,
+      { operation: 'result', process, messageId, tags: tags ?? [] },
+      timeoutError
+    );
+    throw timeoutError;
+  }
+
+  /**
+   * Evaluate Lua code in an AO process
+   *
+   * Sends an `Action: Eval` message and waits for its result. Syntax and
+   * runtime errors are returned in `error` rather than thrown, since the
+   * message itself was delivered and evaluated.
+   * @param process - The process ID to evaluate the code in
+   * @param code - The Lua source to evaluate
+   * @param options - Optional polling settings
+   * @returns The message ID, result, printable output and any Lua error
+   */
+  async evalLua(process: string, code: string, options: AwaitResultOptions = {}): Promise<EvalLuaResult> {
+    const { messageId, result: resultData } = await this.sendAndAwaitResult(
+      process,
+      code,
+      [{ name: 'Action', value: 'Eval' }],
+      undefined,
+      options
+    );
+
+    const output = getOutputText(resultData.Output);
+    const error = getAOResultError(resultData)?.details.originalError;
+    if (error) {
+      logger.warn(`AOService: Eval message ${messageId} failed on process ${process}: ${error}`);
+    } else {
+      logger.info(`AOService: Evaluated Lua in process ${process} with message ${messageId}`);
+    }
+
+    return { messageId, result: resultData, output, error };
+  }
+
+  /**
+   * Wait until a process answers a dry run
+   *
+   * A newly spawned process cannot be messaged until its scheduler and the
+   * CU know about it, which can take several seconds. In mainnet mode the
+   * process is ready as soon as the spawn returns.
+   * @param process - The process ID to wait for
+   * @param options - Optional timeout, abort signal and polling settings
+   */
+  async waitForProcess(process: string, options: AwaitResultOptions = {}): Promise<void> {
+    const { signal, network } = options;
+    // A HyperBEAM node schedules a process before answering the spawn
+    if (this.isMainnet(network)) {
+      return;
+    }
+
+    const timeout = options.timeout ?? this.getDefaultTimeout();
+    const deadline = Date.now() + timeout;
+    const maxDelay = options.maxDelay ?? DEFAULT_POLL_MAX_DELAY;
+    let nextDelay = options.initialDelay ?? DEFAULT_POLL_INITIAL_DELAY;
+    let attempts = 0;
+    let lastError: unknown;
+
+    while (Date.now() < deadline) {
+      attempts++;
+      try {
+        await this.dryRun(process, '', [{ name: 'Action', value: 'Info' }], undefined, {
+          timeout: Math.max(deadline - Date.now(), 1),
+          signal,
+          retry: false,
+          network
+        });
+        logger.info(`AOService: Process ${process} is ready after ${attempts} attempt(s)`);
+        return;
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        break;
+      }
+      await sleep(Math.min(nextDelay, remaining), signal, 'Waiting for process');
+      nextDelay = Math.min(nextDelay * 2, maxDelay);
+    }
+
+    throw new AOError(
+      AOErrorCode.TIMEOUT,
+      `Timed out after ${timeout}ms waiting for process ${process} to become available`,
+      {
+        process,
+        attempts,
+        originalError: lastError instanceof Error ? lastError.message : String(lastError)
+      },
+      [
+        'The process was spawned; it may need more time to reach the scheduler and compute unit',
+        'Increase AO_DEFAULT_TIMEOUT if new processes are slow to become available'
+      ]
+    );
+  }
+
+  /**
+   * Spawn a process and load Lua sources into it
+   *
+   * Waits until the new process answers a dry run, then evaluates each source
+   * in order with an Eval message. Loading stops at the first source that
+   * fails, since later sources usually depend on earlier ones.
+   * @param module - The module ID to use for the process
+   * @param scheduler - The scheduler to assign the process to
+   * @param sources - Lua files or inline code to load, in order
+   * @param tags - Optional tags to attach to the spawn message
+   * @param data - Optional data to include in the spawn message
+   * @param options - Optional timeouts, abort signal and polling settings
+   * @returns The process ID and the result of loading each source
+   */
+  async spawnAndLoad(
+    module: string,
+    scheduler: string,
+    sources: LuaSource[],
+    tags?: { name: string; value: string }[],
+    data?: string,
+    options: SpawnAndLoadOptions = {}
+  ): Promise<SpawnAndLoadResult> {
+    // Read every source up front so a bad path does not leave a half-loaded process
+    const code = await readLuaSources(sources);
+    const { readyTimeout, ...callOptions } = options;
+
+    const processId = await this.spawnProcess(module, scheduler, tags, data, callOptions);
+    await this.waitForProcess(processId, { ...callOptions, timeout: readyTimeout ?? callOptions.timeout });
+
+    const loads: LuaLoadResult[] = [];
+    for (const source of code) {
+      try {
+        const { messageId, output, error } = await this.evalLua(processId, source.code, callOptions);
+        loads.push({ name: source.name, success: !error, messageId, output, error });
+        if (error) break;
+      } catch (error) {
+        loads.push({ name: source.name, success: false, error: error instanceof Error ? error.message : String(error) });
+        break;
+      }
+    }
+
+    logger.info(
+      `AOService: Loaded ${loads.filter(load => load.success).length}/${code.length} Lua source(s) into process ${processId}`
+    );
+    return { processId, loads };
+  }
+
+  /**
+   * Describe a process from its reply to an `Action: Info` dry run
+   *
+   * Descriptions are cached per network for ten minutes unless `refresh` is set.
+   * @param process - The process ID to describe
+   * @param options - Optional cache bypass, timeout and abort signal
+   * @returns The process name, owner and supported handlers
+   */
+  async describeProcess(process: string, options: DescribeProcessOptions = {}): Promise<ProcessDescription> {
+    const { refresh, ...callOptions } = options;
+    const key = `${this.getNetwork(callOptions.network).name}:${process}`;
+    const cached = this.processDescriptions.get(key);
+    if (cached && !refresh && Date.now() - cached.fetchedAt < PROCESS_INFO_TTL) {
+      return cached;
+    }
+
+    const resultData = await this.dryRun(process, '', [{ name: 'Action', value: 'Info' }], undefined, callOptions);
+    const description = parseProcessInfo(process, resultData);
+    this.processDescriptions.set(key, description);
+
+    logger.info(`AOService: Described process ${process} with ${description.handlers.length} handler(s)`);
+    return description;
+  }
+
+  /**
+   * List the results of the messages a process has evaluated
+   *
+   * Results are returned in message order; pass the last cursor as `from` to
+   * read the next page.
+   * @param process - The process ID to read from
+   * @param options - Optional cursor range, sort order, page size, timeout and abort signal
+   * @returns The results with their cursors
+   */
+  async listResults(process: string, options: ListResultsOptions = {}): Promise<AOResultsPage> {
+    const { from, to, sort = 'ASC', limit = DEFAULT_RESULTS_LIMIT, ...callOptions } = options;
+    const client = this.getLegacyClient('Listing process results', callOptions.network);
+
+    try {
+      const operation = `Listing results for process ${process}`;
+      const page = await withRetry(
+        operation,
+        () => this.withTimeout(
+          operation,
+          () => client.results({
+            process,
+            from,
+            to,
+            sort,
+            limit
+          }),
+          callOptions,
+          ['Request a smaller page with limit, or narrow the range with from and to']
+        ),
+        this.getRetryPolicy(callOptions.retry),
+        callOptions.signal
+      );
+
+      logger.info(`AOService: Listed ${page.edges.length} result(s) for process ${process}`);
+      return {
+        edges: page.edges.map(edge => ({ cursor: edge.cursor, result: edge.node })),
+        hasNextPage: page.pageInfo?.hasNextPage ?? false
+      };
+    } catch (error) {
+      logger.error(`AOService: Failed to list results for process ${process}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the monitor that tails processes for messages to the agent's wallet
+   */
+  getMonitor(): AOProcessMonitor {
+    this.monitor ??= new AOProcessMonitor(this, this.runtime);
+    return this.monitor;
+  }
+
+  /**
+   * Run a query against the Arweave GraphQL endpoint of a network (AO_GRAPHQL_URL by default)
+   * @param query - The GraphQL query
+   * @param variables - Values for the query's variables
+   * @param options - Optional per-call timeout and abort signal
+   * @returns The `data` field of the response
+   */
+  async queryGraphQL<T>(
+    query: string,
+    variables: Record<string, unknown> = {},
+    options: AOCallOptions = {}
+  ): Promise<T> {
+    this.ensureInitialized();
+    const url = this.getGraphQLUrl(options.network);
+    const transport = this.config.fetch ?? fetch;
+
+    try {
+      const operation = 'GraphQL query';
+      const body = await withRetry(
+        operation,
+        () => this.withTimeout(
+          operation,
+          async () => {
+            const response = await transport(url, {
+              method: 'POST',
+              headers: { 'Content-Type': 'application/json' },
+              body: JSON.stringify({ query, variables }),
+              signal: options.signal
+            });
+            if (!response.ok) {
+              throw new Error(`${response.status}: ${await response.text()}`);
+            }
+            return (await response.json()) as { data?: T; errors?: { message: string }[] };
+          },
+          options,
+          ['Gateways limit query cost; request fewer transactions per page']
+        ),
+        this.getRetryPolicy(options.retry),
+        options.signal
+      );
+
+      if (body.errors?.length) {
+        throw new AOError(
+          AOErrorCode.PROTOCOL_ERROR,
+          `GraphQL query failed: ${body.errors.map(error => error.message).join('; ')}`,
+          { url, errors: body.errors },
+          ['Check that AO_GRAPHQL_URL points to an Arweave GraphQL endpoint']
+        );
+      }
+      return body.data as T;
+    } catch (error) {
+      logger.error(`AOService: GraphQL query to ${url} failed:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the client for finding processes, messages and modules through GraphQL
+   */
+  getGraphQLClient(): AOGraphQLClient {
+    this.graphqlClient ??= new AOGraphQLClient(this);
+    return this.graphqlClient;
+  }
+
+  /**
+   * Get a client for an AO token process
+   *
+   * Clients are cached per network and process so token info is only
+   * fetched once, and every call goes to the client's network.
+   * @param process - The token process ID
+   * @param network - Name of the network profile; defaults to the default network
+   */
+  getTokenClient(process: string, network?: string): AOTokenClient {
+    const { name } = this.getNetwork(network);
+    const key = `${name}:${process}`;
+    let client = this.tokenClients.get(key);
+    if (!client) {
+      client = new AOTokenClient(this, process, name);
+      this.tokenClients.set(key, client);
+    }
+    return client;
+  }
+
   /**
    * Execute a dry run on an AO process (read operation)
    * @param process - The process ID to execute the dry run on
    * @param data - The data to include in the dry run
    * @param tags - Optional tags to attach to the dry run
    * @param anchor - Optional anchor value
+   * @param options - Optional per-call timeout and abort signal
    * @returns The result of the dry run
    */
   async dryRun(
     process: string,
     data: string,
     tags?: { name: string; value: string }[],
-    anchor?: string
+    anchor?: string,
+    options?: AOCallOptions
   ): Promise<AOResult> {
-    this.ensureInitialized();
+    const client = this.getLegacyClient('Dry runs', options?.network);
     
     try {
-      const resultData = await dryrun({
-        process,
-        data,
-        tags,
-        anchor
-      });
+      const operation = `Dry run on process ${process}`;
+      const resultData = await withRetry(
+        operation,
+        () => this.withTimeout(
+          operation,
+          () => client.dryrun({
+            process,
+            data,
+            tags,
+            anchor
+          }),
+          options,
+          ['Large processes can take a while to load on the compute unit; retry shortly']
+        ),
+        this.getRetryPolicy(options?.retry),
+        options?.signal
+      );
       
       logger.info(`AOService: Dry run executed for process ${process}`);
       return resultData;
@@ -231,6 +1252,13 @@ export class AOService extends Service {
     return this.signer;
   }
 
+  /**
+   * Get the Arweave address of the signing wallet (if known)
+   */
+  getAddress(): string | undefined {
+    return this.address;
+  }
+
   /**
    * Get initialization status
    */
@@ -0,0 +1,237 @@
+import { logger } from '@elizaos/core';
+import type { AOService } from './AOService';
+import type {
+  AOCallOptions,
+  DecodedAOMessage,
+  TokenBalance,
+  TokenInfo,
+  TokenTransferOptions,
+  TokenTransferResult
+} from '../types';
+import { AOError, AOErrorCode, getAOResultError } from '../utils/errors';
+import { decodeAOResult, formatTokenAmount, parseTokenAmount } from '../utils/format';
+
+/**
+ * Denomination assumed for tokens that do not report one, matching the aos
+ * token blueprint
+ */
+const DEFAULT_DENOMINATION = 12;
+
+/**
+ * Token quantities are non-negative integers in base units
+ */
+const QUANTITY_PATTERN = /^\d+$/;
+
+/**
+ * Find the first reply message carrying a tag
+ */
+function findTag(messages: DecodedAOMessage[], name: string): string | undefined {
+  return messages.find(message => message.tags[name] !== undefined)?.tags[name];
+}
+
+/**
+ * Client for processes implementing the AO token standard
+ *
+ * Reads use dry runs; transfers send a message and wait for its result.
+ * Token info is cached for the lifetime of the client, which is bound to one
+ * network.
+ */
+export class AOTokenClient {
+  private info: TokenInfo | undefined = undefined;
+
+  constructor(
+    private readonly service: AOService,
+    readonly process: string,
+    readonly network?: string
+  ) {}
+
+  /**
+   * Route a call to the client's network, whatever the caller passed
+   */
+  private onNetwork(options?: AOCallOptions): AOCallOptions {
+    return { ...options, network: this.network };
+  }
+
+  /**
+   * Get the token's name, ticker, denomination and logo
+   * @param options - Optional per-call timeout and abort signal
+   * @returns The token info, cached after the first successful call
+   */
+  async getTokenInfo(options?: AOCallOptions): Promise<TokenInfo> {
+    if (this.info) return this.info;
+
+    const result = await this.service.dryRun(this.process, '', [{ name: 'Action', value: 'Info' }], undefined, this.onNetwork(options));
+    const { messages } = decodeAOResult(result);
+    const data = messages.find(message => message.data && typeof message.data === 'object')?.data as
+      | Record<string, unknown>
+      | undefined;
+    const read = (name: string) => findTag(messages, name) ?? (data?.[name] !== undefined ? String(data[name]) : undefined);
+
+    if (!read('Name') && !read('Ticker')) {
+      throw new AOError(
+        AOErrorCode.PROTOCOL_ERROR,
+        `Process ${this.process} did not answer Action: Info like a token`,
+        { process: this.process },
+        ['Check that the process implements the AO token standard']
+      );
+    }
+
+    const denomination = Number(read('Denomination') ?? DEFAULT_DENOMINATION);
+    this.info = {
+      process: this.process,
+      name: read('Name'),
+      ticker: read('Ticker'),
+      denomination: Number.isInteger(denomination) && denomination >= 0 ? denomination : DEFAULT_DENOMINATION,
+      logo: read('Logo')
+    };
+    return this.info;
+  }
+
+  /**
+   * Get the balance of an account
+   * @param account - Wallet or process address; defaults to the agent's wallet
+   * @param options - Optional per-call timeout and abort signal
+   */
+  async getBalance(account?: string, options?: AOCallOptions): Promise<TokenBalance> {
+    const target = account ?? this.service.getAddress();
+    if (!target) {
+      throw new AOError(
+        AOErrorCode.CONFIGURATION_ERROR,
+        'No account given and no wallet configured',
+        undefined,
+        ['Pass the address to check, or set AO_WALLET_JWK or AO_WALLET_PATH']
+      );
+    }
+
+    const info = await this.getTokenInfo(options);
+    const result = await this.service.dryRun(
+      this.process,
+      '',
+      [
+        { name: 'Action', value: 'Balance' },
+        { name: 'Target', value: target }
+      ],
+      undefined,
+      this.onNetwork(options)
+    );
+    const { messages } = decodeAOResult(result);
+    const quantity = findTag(messages, 'Balance') ?? messages.map(message => message.data).find(data => QUANTITY_PATTERN.test(String(data)));
+
+    if (quantity === undefined) {
+      throw new AOError(
+        AOErrorCode.PROTOCOL_ERROR,
+        `Process ${this.process} did not return a balance for ${target}`,
+        { process: this.process, account: target },
+        ['Check that the process implements the AO token standard']
+      );
+    }
+    if (!QUANTITY_PATTERN.test(String(quantity))) {
+      throw new AOError(
+        AOErrorCode.PROTOCOL_ERROR,
+        `Process ${this.process} returned an invalid balance "${quantity}" for ${target}`,
+        { process: this.process, account: target, quantity: String(quantity) },
+        ['Check that the process implements the AO token standard, which reports balances as integers in base units']
+      );
+    }
+
+    return {
+      process: this.process,
+      account: target,
+      quantity: String(quantity),
+      amount: formatTokenAmount(String(quantity), info.denomination),
+      ticker: info.ticker,
+      denomination: info.denomination
+    };
+  }
+
+  /**
+   * Get the balances of every account holding the token
+   * @param options - Optional per-call timeout and abort signal
+   * @returns Balances keyed by address, in base units
+   */
+  async getBalances(options?: AOCallOptions): Promise<Record<string, string>> {
+    const result = await this.service.dryRun(this.process, '', [{ name: 'Action', value: 'Balances' }], undefined, this.onNetwork(options));
+    const balances = decodeAOResult(result).messages.find(message => message.data && typeof message.data === 'object')?.data;
+
+    if (!balances) {
+      throw new AOError(
+        AOErrorCode.PROTOCOL_ERROR,
+        `Process ${this.process} did not return a balances table`,
+        { process: this.process },
+        ['Check that the process implements the AO token standard']
+      );
+    }
+
+    const entries = Object.entries(balances).map(([address, quantity]) => [address, String(quantity)]);
+    const invalid = entries.find(([, quantity]) => !QUANTITY_PATTERN.test(quantity));
+    if (invalid) {
+      throw new AOError(
+        AOErrorCode.PROTOCOL_ERROR,
+        `Process ${this.process} returned an invalid balance "${invalid[1]}" for ${invalid[0]}`,
+        { process: this.process, account: invalid[0], quantity: invalid[1] },
+        ['Check that the process implements the AO token standard, which reports balances as integers in base units']
+      );
+    }
+
+    return Object.fromEntries(entries);
+  }
+
+  /**
+   * Transfer tokens to a recipient and wait for the token process to confirm
+   * @param recipient - Wallet or process address to credit
+   * @param amount - Amount in whole tokens, or in base units with `raw`
+   * @param options - Optional polling settings; `raw` skips denomination scaling
+   * @returns The message, its result and which notices were issued
+   */
+  async transfer(recipient: string, amount: string, options: TokenTransferOptions = {}): Promise<TokenTransferResult> {
+    const { raw, ...callOptions } = options;
+    const info = raw ? undefined : await this.getTokenInfo(callOptions);
+    const quantity = parseTokenAmount(amount, info?.denomination ?? 0, info?.ticker).toString();
+
+    if (quantity === '0') {
+      throw new AOError(AOErrorCode.VALIDATION_ERROR, 'Transfer amount must be greater than zero', { amount }, [
+        'Use a positive amount'
+      ]);
+    }
+
+    const { messageId, result } = await this.service.sendAndAwaitResult(
+      this.process,
+      '',
+      [
+        { name: 'Action', value: 'Transfer' },
+        { name: 'Recipient', value: recipient },
+        { name: 'Quantity', value: quantity }
+      ],
+      undefined,
+      { ...callOptions, network: this.network }
+    );
+
+    const evaluationError = getAOResultError(result);
+    if (evaluationError) {
+      evaluationError.details = { ...evaluationError.details, messageId };
+      throw evaluationError;
+    }
+
+    const { messages } = decodeAOResult(result);
+    const transferError = messages.find(message => message.action === 'Transfer-Error');
+    if (transferError) {
+      const reason = transferError.tags.Error ?? String(transferError.data ?? 'Transfer rejected');
+      throw new AOError(
+        /insufficient/i.test(reason) ? AOErrorCode.INSUFFICIENT_BALANCE : AOErrorCode.TRANSACTION_FAILED,
+        `Transfer rejected by token process: ${reason}`,
+        { process: this.process, messageId, recipient, quantity, originalError: reason },
+        /insufficient/i.test(reason)
+          ? ['Check the wallet balance with AO_TOKEN_BALANCE before transferring']
+          : ['Check the recipient address and amount']
+      );
+    }
+
+    const debitNotice = messages.some(message => message.action === 'Debit-Notice');
+    const creditNotice = messages.some(message => message.action === 'Credit-Notice');
+    if (!debitNotice || !creditNotice) {
+      logger.warn(`AOTokenClient: Transfer ${messageId} on ${this.process} did not produce both Debit- and Credit-Notice`);
+    }
+
+    return { messageId, result, recipient, quantity, debitNotice, creditNotice };
+  }
+}
@@ -1,2 +1,9 @@
 export { AOService } from './AOService';
 export { aoPlugin } from '../plugin';
+export { AOTokenClient } from './AOTokenClient';
+export { AOProcessRegistry } from './AOProcessRegistry';
+export { AOMessageLog } from './AOMessageLog';
+export { AOProcessMonitor } from './AOProcessMonitor';
+export { AOGraphQLClient } from './AOGraphQLClient';
+export { AOHyperbeamClient } from './AOHyperbeamClient';
+export { AOEmulator } from './AOEmulator';
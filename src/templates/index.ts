@@ -0,0 +1,220 @@
+/**
+ * Prompt templates for extracting AO action parameters from natural language
+ *
+ * Each template is paired with its action's zod schema; the model's answer is
+ * validated against that schema before the action runs.
+ */
+
+const extractionFooter = `Known processes:
+{{knownProcesses}}
+
+Only use values that appear in the request, the recent conversation or the known processes; never invent IDs.
+If the request names a known process by its label (e.g. "my counter process"), use the label as the process value.
+If a required value is missing, set it to null. Omit optional fields that are not mentioned.`;
+
+const networkInstruction = `Set "network" only when the user names a network, e.g. "on mainnet" or "on the local stack".`;
+
+export const spawnProcessTemplate = `Extract the parameters for spawning a new AO process.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+Add "sources" only if the user asks to load Lua files or code into the new process, in the order given.
+Set "preset" when the user names a kind of process, e.g. "aos", "aos-sqlite" or "token".
+Omit "module" and "scheduler" unless the user gives them; configured defaults are used instead.
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "preset": "<optional preset name>",
+  "module": "<optional module transaction ID>",
+  "scheduler": "<optional scheduler address>",
+  "data": "<optional initial data>",
+  "label": "<optional name to remember the process by, e.g. counter>",
+  "tags": [{ "name": "<tag name>", "value": "<tag value>" }],
+  "sources": [{ "path": "<path to a .lua file>" }, { "code": "<inline Lua code>" }],
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const sendMessageTemplate = `Extract the parameters for sending a message to an AO process.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+The "Action" tag is usually named in the request (e.g. "send Ping" means an Action tag with value "Ping").
+Set "waitForResult" to true only if the user wants to see the process's reply or result.
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<target process ID>",
+  "data": "<message data>",
+  "tags": [{ "name": "<tag name>", "value": "<tag value>" }],
+  "anchor": "<optional anchor>",
+  "waitForResult": false,
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const readResultTemplate = `Extract the parameters for reading the result of an AO message.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<process ID that received the message>",
+  "messageId": "<message ID, or null for the last message sent to the process>",
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const dryRunTemplate = `Extract the parameters for a dry run (read-only evaluation) on an AO process.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<process ID>",
+  "data": "<data to evaluate>",
+  "tags": [{ "name": "<tag name>", "value": "<tag value>" }],
+  "anchor": "<optional anchor>",
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const evalLuaTemplate = `Extract the parameters for evaluating Lua code in an AO process.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+Copy the Lua code exactly as written, including newlines; do not add or fix anything.
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<process ID>",
+  "code": "<Lua source to evaluate>",
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const tokenBalanceTemplate = `Extract the parameters for checking a balance on an AO token process.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+Omit "account" when the user asks about their own or the agent's balance.
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<token process ID>",
+  "account": "<optional wallet or process address>",
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const tokenTransferTemplate = `Extract the parameters for transferring tokens on an AO token process.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+Give "amount" as a string exactly as the user wrote it, in whole tokens (e.g. "1.5").
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<token process ID>",
+  "recipient": "<recipient wallet or process address>",
+  "amount": "<amount in whole tokens>",
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const processInfoTemplate = `Extract the parameters for looking up which actions an AO process supports.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+Set "refresh" to true only if the user asks to check again or says the process has changed.
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<process ID>",
+  "refresh": false,
+  "network": "<optional network name>"
+}
+\`\`\``;
+
+export const registerProcessTemplate = `Extract the parameters for remembering an AO process under a label.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "process": "<process ID>",
+  "label": "<name to remember the process by>",
+  "module": "<optional module ID>",
+  "scheduler": "<optional scheduler address>"
+}
+\`\`\``;
+
+export const queryProcessesTemplate = `Extract the parameters for finding the AO processes a wallet has spawned.
+
+{{recentMessages}}
+
+Request: {{userMessage}}
+
+${extractionFooter}
+${networkInstruction}
+Omit "owner" when the user asks about their own or the agent's processes.
+Give "days" as the number of days to look back, e.g. 7 for "last week" or 1 for "today".
+Set "cursor" only when the user asks for more results of a previous query, using the cursor it reported.
+
+Respond with a JSON markdown block:
+\`\`\`json
+{
+  "owner": "<optional wallet address>",
+  "days": 7,
+  "limit": 25,
+  "cursor": "<optional cursor>",
+  "network": "<optional network name>"
+}
+\`\`\``;
@@ -2,6 +2,9 @@
  * Type definitions for AO plugin
  */
 
+import type { IAgentRuntime } from '@elizaos/core';
+import type { AOErrorCode } from '../utils/errors';
+
 /**
  * Configuration options for AOService
  */
@@ -42,18 +45,130 @@ export interface AOServiceConfig {
    */
   mode?: 'legacy' | 'mainnet';
   
+  /**
+   * URL of the HyperBEAM node used in mainnet mode
+   * @example 'http://localhost:8734'
+   */
+  hyperbeamUrl?: string;
+  
+  /**
+   * Device that executes processes spawned in mainnet mode
+   * @default 'genesis-wasm@1.0'
+   */
+  executionDevice?: string;
+  
   /**
    * Default timeout for operations in milliseconds
+   *
+   * Applies to each attempt, so a retried call can take up to `maxAttempts`
+   * times this plus the backoff delays.
    * @default 30000
    */
   defaultTimeout?: number;
   
+  /**
+   * Retry policy for transient MU/CU failures
+   */
+  retry?: RetryPolicy;
+  
+  /**
+   * Process IDs or registry labels to monitor for messages to the agent's wallet
+   */
+  monitorProcesses?: string[];
+  
+  /**
+   * Delay between monitor polls in milliseconds
+   * @default 15000
+   */
+  monitorInterval?: number;
+  
+  /**
+   * Module used when a spawn names neither a module nor a preset with one
+   */
+  defaultModule?: string;
+  
+  /**
+   * Scheduler used when a spawn names neither a scheduler nor a preset with one
+   */
+  defaultScheduler?: string;
+  
+  /**
+   * Value of the Authority tag added to spawns that do not set one
+   */
+  authority?: string;
+  
+  /**
+   * Named spawn presets, e.g. "aos" or "token"
+   */
+  presets?: Record<string, SpawnPreset>;
+  
+  /**
+   * Named network profiles, e.g. "mainnet" or "local"
+   *
+   * The top-level URLs, mode and default scheduler form the profile named
+   * "default".
+   */
+  networks?: Record<string, AONetworkProfile>;
+  
+  /**
+   * Profile used when a call does not name a network
+   * @default 'default'
+   */
+  defaultNetwork?: string;
+  
+  /**
+   * Transport for MU, CU and GraphQL requests, e.g. an AOEmulator's `fetch`
+   *
+   * Mainnet requests to a HyperBEAM node always use the global fetch.
+   * @default globalThis.fetch
+   */
+  fetch?: typeof fetch;
+  
   /**
    * Index signature to make AOServiceConfig compatible with Metadata
    */
   [key: string]: any;
 }
 
+/**
+ * Retry policy for transient failures
+ *
+ * Reads and dry runs are retried by default. Messages are only retried when
+ * they carry an anchor, which makes resending them idempotent. Spawns are
+ * never retried.
+ */
+export interface RetryPolicy {
+  /**
+   * Total number of attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+  
+  /**
+   * Delay before the first retry in milliseconds, doubled on each retry
+   * @default 500
+   */
+  baseDelay?: number;
+  
+  /**
+   * Upper bound for the delay between retries in milliseconds
+   * @default 5000
+   */
+  maxDelay?: number;
+  
+  /**
+   * Fraction of the delay to randomize (0 disables jitter)
+   * @default 0.2
+   */
+  jitter?: number;
+  
+  /**
+   * Error codes that are considered transient
+   * @default [AOErrorCode.NETWORK_ERROR, AOErrorCode.TIMEOUT, AOErrorCode.RATE_LIMITED]
+   */
+  retryOn?: AOErrorCode[];
+}
+
 /**
  * Result of an AO message evaluation
  */
@@ -79,6 +194,81 @@ export interface AOResult {
   Error?: unknown;
 }
 
+/**
+ * An outbound message from an AOResult, decoded for display
+ */
+export interface DecodedAOMessage {
+  /**
+   * Process or wallet the message is addressed to
+   */
+  target?: string;
+
+  /**
+   * Value of the Action tag, if any
+   */
+  action?: string;
+
+  /**
+   * All tags on the message, by name
+   */
+  tags: Record<string, string>;
+
+  /**
+   * Message data, JSON-parsed when possible
+   */
+  data?: unknown;
+}
+
+/**
+ * A process spawn from an AOResult, decoded for display
+ */
+export interface DecodedAOSpawn {
+  /**
+   * Name tag of the new process, if any
+   */
+  name?: string;
+
+  /**
+   * Module the new process runs
+   */
+  module?: string;
+
+  /**
+   * All tags on the spawn, by name
+   */
+  tags: Record<string, string>;
+
+  /**
+   * Spawn data, JSON-parsed when possible
+   */
+  data?: unknown;
+}
+
+/**
+ * An AOResult decoded into a structured summary
+ */
+export interface DecodedAOResult {
+  /**
+   * Printable output with ANSI codes removed, or the raw output value
+   */
+  output?: unknown;
+
+  /**
+   * Outbound messages
+   */
+  messages: DecodedAOMessage[];
+
+  /**
+   * Processes spawned
+   */
+  spawns: DecodedAOSpawn[];
+
+  /**
+   * Evaluation error text, if any
+   */
+  error?: string;
+}
+
 /**
  * Parameters for spawning an AO process
  */
@@ -104,6 +294,186 @@ export interface SpawnProcessParams {
   data?: string;
 }
 
+/**
+ * The units and defaults of one AO network, e.g. legacynet or a local dev stack
+ *
+ * Unset URLs fall back to the aoconnect defaults.
+ */
+export interface AONetworkProfile {
+  /**
+   * Connection mode for aoconnect
+   * @default 'legacy'
+   */
+  mode?: 'legacy' | 'mainnet';
+  
+  /**
+   * Base URL for the Arweave gateway
+   */
+  gatewayUrl?: string;
+  
+  /**
+   * URL for the GraphQL endpoint
+   * @default 'https://arweave.net/graphql'
+   */
+  graphqlUrl?: string;
+  
+  /**
+   * URL for the Message Unit
+   */
+  muUrl?: string;
+  
+  /**
+   * URL for the Compute Unit
+   */
+  cuUrl?: string;
+  
+  /**
+   * URL of the HyperBEAM node, required in mainnet mode
+   */
+  hyperbeamUrl?: string;
+  
+  /**
+   * Device that executes processes spawned in mainnet mode
+   * @default 'genesis-wasm@1.0'
+   */
+  executionDevice?: string;
+  
+  /**
+   * Scheduler used for spawns on this network that name neither a scheduler nor a preset with one
+   */
+  scheduler?: string;
+}
+
+/**
+ * A named set of spawn parameters
+ */
+export interface SpawnPreset {
+  /**
+   * Module ID; defaults to AOServiceConfig.defaultModule
+   */
+  module?: string;
+  
+  /**
+   * Scheduler address; defaults to AOServiceConfig.defaultScheduler
+   */
+  scheduler?: string;
+  
+  /**
+   * Tags added to the spawn message; tags given with the spawn take precedence
+   */
+  tags?: { name: string; value: string }[];
+  
+  /**
+   * Lua sources loaded into the process after it is spawned
+   */
+  sources?: LuaSource[];
+  
+  /**
+   * What the preset is for, shown when listing presets
+   */
+  description?: string;
+}
+
+/**
+ * What to spawn, given as a preset, explicit IDs, or neither to use the defaults
+ */
+export interface SpawnRequest {
+  /**
+   * Name of a configured preset
+   */
+  preset?: string;
+  
+  /**
+   * Module ID, overriding the preset and default
+   */
+  module?: string;
+  
+  /**
+   * Scheduler address, overriding the preset and default
+   */
+  scheduler?: string;
+  
+  /**
+   * Tags for the spawn message
+   */
+  tags?: { name: string; value: string }[];
+  
+  /**
+   * Label for the process, used as its Name tag unless one is given
+   */
+  label?: string;
+  
+  /**
+   * Network profile whose default scheduler applies
+   */
+  network?: string;
+}
+
+/**
+ * Spawn parameters after applying the preset, defaults and required tags
+ */
+export interface ResolvedSpawn {
+  /**
+   * Module ID
+   */
+  module: string;
+  
+  /**
+   * Scheduler address
+   */
+  scheduler: string;
+  
+  /**
+   * Tags for the spawn message, including Name and Authority
+   */
+  tags: { name: string; value: string }[];
+  
+  /**
+   * Lua sources from the preset
+   */
+  sources: LuaSource[];
+}
+
+/**
+ * Module and scheduler of a spawn, as confirmed through the gateway
+ */
+export interface SpawnTarget {
+  /**
+   * The module transaction
+   */
+  module: {
+    /**
+     * Module ID
+     */
+    id: string;
+    
+    /**
+     * Value of the Module-Format tag, e.g. wasm64-unknown-emscripten-draft_2024_02_15
+     */
+    format: string;
+    
+    /**
+     * Value of the Memory-Limit tag, e.g. 1-gb
+     */
+    memoryLimit?: string;
+  };
+  
+  /**
+   * The scheduler's Scheduler-Location record
+   */
+  scheduler: {
+    /**
+     * Scheduler wallet address
+     */
+    address: string;
+    
+    /**
+     * URL the scheduler is reachable at
+     */
+    url: string;
+  };
+}
+
 /**
  * Parameters for sending a message to an AO process
  */
@@ -130,41 +500,836 @@ export interface SendMessageParams {
 }
 
 /**
- * Parameters for reading a result from an AO process
+ * Per-call options for AOService operations
  */
-export interface ReadResultParams {
+export interface AOCallOptions {
   /**
-   * Process ID to read from
+   * Maximum time to wait for the operation in milliseconds
+   * @default AOServiceConfig.defaultTimeout
    */
-  process: string;
+  timeout?: number;
   
   /**
-   * Message ID to read the result for
+   * Signal used to cancel the operation
    */
-  messageId: string;
+  signal?: AbortSignal;
+  
+  /**
+   * Retry policy overrides for this call, or false to disable retries
+   */
+  retry?: RetryPolicy | false;
+  
+  /**
+   * Name of the network profile to use
+   * @default AOServiceConfig.defaultNetwork
+   */
+  network?: string;
 }
 
 /**
- * Parameters for executing a dry run on an AO process
+ * Options for waiting on the result of a sent message
  */
-export interface DryRunParams {
+export interface AwaitResultOptions extends AOCallOptions {
   /**
-   * Process ID to execute the dry run on
+   * Delay before the first retry in milliseconds
+   * @default 500
    */
-  process: string;
+  initialDelay?: number;
   
   /**
-   * Data to include in the dry run
+   * Upper bound for the delay between retries in milliseconds
+   * @default 5000
    */
-  data: string;
-  
+  maxDelay?: number;
+}
+
+/**
+ * Message ID and evaluated result of a sent message
+ */
+export interface SendAndAwaitResult {
   /**
-   * Optional tags to attach to the dry run
+   * The message ID of the sent message, or its slot on a mainnet network
    */
-  tags?: { name: string; value: string }[];
+  messageId: string;
   
   /**
-   * Optional anchor value
+   * The result of the message evaluation
    */
-  anchor?: string;
+  result: AOResult;
+}
+
+/**
+ * Result of evaluating Lua code in an AO process
+ */
+export interface EvalLuaResult extends SendAndAwaitResult {
+  /**
+   * Printable output of the evaluation with ANSI codes removed
+   */
+  output?: string;
+
+  /**
+   * Syntax or runtime error reported by the process, if any
+   */
+  error?: string;
+}
+
+/**
+ * Options for describing a process
+ */
+export interface DescribeProcessOptions extends AOCallOptions {
+  /**
+   * Ignore any cached description and ask the process again
+   */
+  refresh?: boolean;
 }
+
+/**
+ * Lua source to load into a process, given as a file path or inline code
+ */
+export interface LuaSource {
+  /**
+   * Path to a `.lua` file
+   */
+  path?: string;
+  
+  /**
+   * Inline Lua code, used when no path is given
+   */
+  code?: string;
+  
+  /**
+   * Label used in load results; defaults to the file name
+   */
+  name?: string;
+}
+
+/**
+ * Outcome of loading one Lua source into a process
+ */
+export interface LuaLoadResult {
+  /**
+   * File name or label of the source
+   */
+  name: string;
+  
+  /**
+   * Whether the code evaluated without errors
+   */
+  success: boolean;
+  
+  /**
+   * ID of the Eval message, if it was sent
+   */
+  messageId?: string;
+  
+  /**
+   * Printable output of the evaluation
+   */
+  output?: string;
+  
+  /**
+   * Lua error or failure reason
+   */
+  error?: string;
+}
+
+/**
+ * Options for spawning a process and loading Lua into it
+ */
+export interface SpawnAndLoadOptions extends AwaitResultOptions {
+  /**
+   * Maximum time to wait for the new process to answer a dry run
+   * @default AOServiceConfig.defaultTimeout
+   */
+  readyTimeout?: number;
+}
+
+/**
+ * Result of spawning a process and loading Lua into it
+ */
+export interface SpawnAndLoadResult {
+  /**
+   * ID of the spawned process
+   */
+  processId: string;
+  
+  /**
+   * Load results in source order; loading stops at the first failure
+   */
+  loads: LuaLoadResult[];
+}
+
+/**
+ * Parameters for reading a result from an AO process
+ */
+export interface ReadResultParams {
+  /**
+   * Process ID to read from
+   */
+  process: string;
+  
+  /**
+   * Message ID to read the result for, or its slot on a mainnet network
+   */
+  messageId: string;
+}
+
+/**
+ * Options for listing the results of a process
+ */
+export interface ListResultsOptions extends AOCallOptions {
+  /**
+   * Cursor to start after, exclusive
+   */
+  from?: string;
+  
+  /**
+   * Cursor to stop at, inclusive
+   */
+  to?: string;
+  
+  /**
+   * Order of the results by message position
+   * @default 'ASC'
+   */
+  sort?: 'ASC' | 'DESC';
+  
+  /**
+   * Maximum number of results to return
+   * @default 25
+   */
+  limit?: number;
+}
+
+/**
+ * One evaluated message in a page of process results
+ */
+export interface AOResultEdge {
+  /**
+   * Cursor of the result, usable as `from` or `to`
+   */
+  cursor: string;
+  
+  /**
+   * The result of the message evaluation
+   */
+  result: AOResult;
+}
+
+/**
+ * A page of results from a process
+ */
+export interface AOResultsPage {
+  /**
+   * Results in the requested order
+   */
+  edges: AOResultEdge[];
+  
+  /**
+   * Whether more results follow the last one
+   */
+  hasNextPage: boolean;
+}
+
+/**
+ * Options for querying transactions through the Arweave GraphQL endpoint
+ */
+export interface TransactionQueryOptions extends AOCallOptions {
+  /**
+   * Number of transactions per page
+   * @default 25
+   */
+  first?: number;
+  
+  /**
+   * Cursor of the last transaction on the previous page
+   */
+  after?: string;
+  
+  /**
+   * Only include transactions from this time on, in milliseconds since the epoch
+   */
+  since?: number;
+  
+  /**
+   * Only include transactions up to this time, in milliseconds since the epoch
+   */
+  until?: number;
+}
+
+/**
+ * An Arweave transaction or data item returned by a GraphQL query
+ */
+export interface AOTransaction {
+  /**
+   * Transaction ID
+   */
+  id: string;
+  
+  /**
+   * Address of the signing wallet
+   */
+  owner: string;
+  
+  /**
+   * Target process or wallet, if any
+   */
+  recipient?: string;
+  
+  /**
+   * Tags on the transaction
+   */
+  tags: { name: string; value: string }[];
+  
+  /**
+   * Block time in milliseconds since the epoch; unset while pending
+   */
+  timestamp?: number;
+  
+  /**
+   * Block height; unset while pending
+   */
+  height?: number;
+}
+
+/**
+ * A page of transactions, newest first
+ */
+export interface AOTransactionPage {
+  /**
+   * Transactions on this page
+   */
+  transactions: AOTransaction[];
+  
+  /**
+   * Cursor to pass as `after` for the next page
+   */
+  cursor?: string;
+  
+  /**
+   * Whether another page follows
+   */
+  hasNextPage: boolean;
+}
+
+/**
+ * Parameters for executing a dry run on an AO process
+ */
+export interface DryRunParams {
+  /**
+   * Process ID to execute the dry run on
+   */
+  process: string;
+  
+  /**
+   * Data to include in the dry run
+   */
+  data: string;
+  
+  /**
+   * Optional tags to attach to the dry run
+   */
+  tags?: { name: string; value: string }[];
+  
+  /**
+   * Optional anchor value
+   */
+  anchor?: string;
+}
+
+/**
+ * Metadata reported by an AO token process in reply to `Action: Info`
+ */
+export interface TokenInfo {
+  /**
+   * Token process ID
+   */
+  process: string;
+  
+  /**
+   * Token name
+   */
+  name?: string;
+  
+  /**
+   * Token ticker
+   */
+  ticker?: string;
+  
+  /**
+   * Number of decimal places in a quantity
+   * @default 12
+   */
+  denomination: number;
+  
+  /**
+   * Arweave transaction ID of the token logo
+   */
+  logo?: string;
+}
+
+/**
+ * Balance of one account on an AO token process
+ */
+export interface TokenBalance {
+  /**
+   * Token process ID
+   */
+  process: string;
+  
+  /**
+   * Wallet or process address the balance belongs to
+   */
+  account: string;
+  
+  /**
+   * Balance in base units, as an integer string
+   */
+  quantity: string;
+  
+  /**
+   * Balance in whole tokens
+   */
+  amount: string;
+  
+  /**
+   * Token ticker
+   */
+  ticker?: string;
+  
+  /**
+   * Number of decimal places in a quantity
+   */
+  denomination: number;
+}
+
+/**
+ * Options for a token transfer
+ */
+export interface TokenTransferOptions extends AwaitResultOptions {
+  /**
+   * Treat the amount as a quantity in base units instead of whole tokens
+   */
+  raw?: boolean;
+}
+
+/**
+ * Result of a token transfer
+ */
+export interface TokenTransferResult extends SendAndAwaitResult {
+  /**
+   * Recipient address
+   */
+  recipient: string;
+  
+  /**
+   * Transferred quantity in base units
+   */
+  quantity: string;
+  
+  /**
+   * Whether the token process issued a Debit-Notice to the sender
+   */
+  debitNotice: boolean;
+  
+  /**
+   * Whether the token process issued a Credit-Notice to the recipient
+   */
+  creditNotice: boolean;
+}
+
+/**
+ * A handler a process is known to support
+ */
+export interface ProcessHandler {
+  /**
+   * Value of the Action tag the handler matches
+   */
+  action: string;
+  
+  /**
+   * Other tags the handler expects
+   */
+  tags?: string[];
+}
+
+/**
+ * What a process reports about itself in reply to `Action: Info`
+ */
+export interface ProcessDescription {
+  /**
+   * Process ID
+   */
+  process: string;
+  
+  /**
+   * Process name
+   */
+  name?: string;
+  
+  /**
+   * Token ticker, for token processes
+   */
+  ticker?: string;
+  
+  /**
+   * Owner wallet address
+   */
+  owner?: string;
+  
+  /**
+   * Handlers the process supports, as reported or inferred
+   */
+  handlers: ProcessHandler[];
+  
+  /**
+   * Whether the process looks like an AO token
+   */
+  isToken: boolean;
+  
+  /**
+   * Whether the process replied to `Action: Info` at all
+   */
+  responded: boolean;
+  
+  /**
+   * Time the description was fetched, in milliseconds since the epoch
+   */
+  fetchedAt: number;
+}
+
+/**
+ * A process the agent has spawned or been told about
+ */
+export interface KnownProcess {
+  /**
+   * Process ID
+   */
+  processId: string;
+  
+  /**
+   * Human labels the process can be referred to by, e.g. "counter"
+   */
+  labels: string[];
+  
+  /**
+   * Module the process runs
+   */
+  module?: string;
+  
+  /**
+   * Scheduler the process is assigned to
+   */
+  scheduler?: string;
+  
+  /**
+   * Time the process was spawned, in milliseconds since the epoch
+   */
+  createdAt?: number;
+  
+  /**
+   * Time the process was added to the registry, in milliseconds since the epoch
+   */
+  registeredAt: number;
+  
+  /**
+   * Whether the agent spawned the process or was told about it
+   */
+  source: 'spawned' | 'registered';
+}
+
+/**
+ * A message the agent sent, as recorded in its message log
+ */
+export interface SentMessage {
+  /**
+   * Message ID, or on a mainnet network the slot the process's scheduler
+   * assigned, which is only unique within the process
+   */
+  messageId: string;
+  
+  /**
+   * Process the message was sent to
+   */
+  process: string;
+  
+  /**
+   * Tags sent with the message
+   */
+  tags: { name: string; value: string }[];
+  
+  /**
+   * SHA-256 hash of the message data, hex encoded
+   */
+  dataHash: string;
+  
+  /**
+   * Time the message was sent, in milliseconds since the epoch
+   */
+  sentAt: number;
+  
+  /**
+   * Whether the result is unread, evaluated cleanly or reported an error
+   */
+  status: 'pending' | 'succeeded' | 'failed';
+  
+  /**
+   * Time the result was first read, in milliseconds since the epoch
+   */
+  readAt?: number;
+}
+
+/**
+ * Events emitted through the runtime for AO activity
+ */
+export enum AOEventType {
+  /**
+   * A monitored process sent a message to the agent's wallet
+   */
+  MESSAGE_RECEIVED = 'AO_MESSAGE_RECEIVED',
+  
+  /**
+   * A spawn or message was accepted, or a sent message evaluated cleanly
+   */
+  TRANSACTION_CONFIRMED = 'TRANSACTION_CONFIRMED',
+  
+  /**
+   * A spawn or message was rejected, or a sent message failed to evaluate or
+   * its result did not arrive in time
+   */
+  TRANSACTION_FAILED = 'TRANSACTION_FAILED',
+}
+
+/**
+ * Payload of TRANSACTION_CONFIRMED and TRANSACTION_FAILED events
+ */
+export interface AOTransactionEventPayload {
+  /**
+   * The agent runtime that emitted the event
+   */
+  runtime: IAgentRuntime;
+  
+  /**
+   * Always `'ao'`
+   */
+  source: 'ao';
+  
+  /**
+   * What the event reports: a spawn, a message being sent, or a sent
+   * message's result
+   */
+  operation: 'spawn' | 'message' | 'result';
+  
+  /**
+   * Process spawned or messaged; unknown for a spawn that failed
+   */
+  process?: string;
+  
+  /**
+   * Message ID, or slot on a mainnet network; for a spawn, the ID of the new
+   * process
+   */
+  messageId?: string;
+  
+  /**
+   * Tags sent with the spawn or message
+   */
+  tags: { name: string; value: string }[];
+  
+  /**
+   * Decoded result, for `result` events
+   */
+  result?: DecodedAOResult;
+  
+  /**
+   * Compact summary of the result, for `result` events
+   */
+  summary?: string;
+  
+  /**
+   * Error code, for TRANSACTION_FAILED events
+   */
+  errorCode?: AOErrorCode;
+  
+  /**
+   * Error message, for TRANSACTION_FAILED events
+   */
+  error?: string;
+}
+
+/**
+ * Options for the process monitor
+ */
+export interface ProcessMonitorOptions {
+  /**
+   * Delay between polls in milliseconds
+   * @default 15000
+   */
+  interval?: number;
+  
+  /**
+   * Maximum number of results read per process on each poll
+   * @default 25
+   */
+  limit?: number;
+}
+
+/**
+ * A message a monitored process sent to the agent's wallet
+ */
+export interface ReceivedAOMessage {
+  /**
+   * Process that sent the message
+   */
+  process: string;
+  
+  /**
+   * Cursor of the result the message was sent from
+   */
+  cursor: string;
+  
+  /**
+   * The decoded message
+   */
+  message: DecodedAOMessage;
+}
+
+/**
+ * A signed ANS-104 data item, as posted to an MU
+ */
+export interface DataItem {
+  /**
+   * Data item ID, the SHA-256 digest of its signature
+   */
+  id: string;
+  
+  /**
+   * Address of the signer
+   */
+  owner: string;
+  
+  /**
+   * Process the item is addressed to, for messages
+   */
+  target?: string;
+  
+  /**
+   * Anchor set by the sender
+   */
+  anchor?: string;
+  
+  /**
+   * Tags on the data item, in order
+   */
+  tags: { name: string; value: string }[];
+  
+  /**
+   * Data, decoded as UTF-8
+   */
+  data: string;
+}
+
+/**
+ * A process running in an AOEmulator
+ */
+export interface EmulatorProcess {
+  /**
+   * Process ID, the ID of its spawn message
+   */
+  id: string;
+  
+  /**
+   * Address that spawned the process
+   */
+  owner: string;
+  
+  /**
+   * Module the process runs
+   */
+  module: string;
+  
+  /**
+   * Tags on the spawn message
+   */
+  tags: { name: string; value: string }[];
+}
+
+/**
+ * A message delivered to an emulated process
+ */
+export interface EmulatorMessage {
+  Id: string;
+  From: string;
+  Owner: string;
+  Target: string;
+  Anchor?: string;
+  Data: string;
+  Tags: { name: string; value: string }[];
+  
+  /**
+   * Position of the message in the process's schedule; the spawn message is 0
+   */
+  Nonce: number;
+  
+  /**
+   * Time the message was scheduled, in milliseconds since the epoch
+   */
+  Timestamp: number;
+  
+  /**
+   * Tags by name, for convenience
+   */
+  tags: Record<string, string>;
+}
+
+/**
+ * A message or spawn an emulated process sends; tags can be given by name
+ */
+export interface EmulatorOutboundMessage {
+  Target?: string;
+  Data?: string;
+  Tags?: { name: string; value: string }[] | Record<string, string>;
+}
+
+/**
+ * What an emulator handler can read and do while evaluating a message
+ */
+export interface EmulatorContext {
+  /**
+   * The process evaluating the message
+   */
+  process: EmulatorProcess;
+  
+  /**
+   * The process's state; changes are kept unless the handler throws or the
+   * message is a dry run
+   */
+  state: Record<string, any>;
+  
+  /**
+   * Whether the message is a dry run
+   */
+  dryRun: boolean;
+  
+  /**
+   * Append a line to the result's output
+   */
+  print(...values: unknown[]): void;
+  
+  /**
+   * Add a message to the result's outbox
+   */
+  send(message: EmulatorOutboundMessage & { Target: string }): void;
+  
+  /**
+   * Add a spawn to the result's outbox
+   */
+  spawn(spawn: EmulatorOutboundMessage): void;
+}
+
+/**
+ * JavaScript stand-in for a process module: evaluates one message at a time
+ *
+ * Throwing sets the result's Error and discards the state changes.
+ */
+export type EmulatorHandler = (message: EmulatorMessage, context: EmulatorContext) => void | Promise<void>;
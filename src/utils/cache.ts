@@ -0,0 +1,32 @@
+import type { IAgentRuntime } from '@elizaos/core';
+
+/**
+ * Last queued update per runtime and cache key
+ */
+const pendingUpdates = new WeakMap<IAgentRuntime, Map<string, Promise<unknown>>>();
+
+/**
+ * Run a read-modify-write of a cache entry after earlier updates to it finish
+ *
+ * The message log and process registry are created per call, so updates are
+ * queued here, per runtime, rather than on an instance.
+ * @param runtime - The runtime whose cache is updated
+ * @param key - The cache key being updated
+ * @param update - Reads the entry, changes it and writes it back
+ * @returns The result of the update
+ */
+export function withCacheLock<T>(runtime: IAgentRuntime, key: string, update: () => Promise<T>): Promise<T> {
+  let queue = pendingUpdates.get(runtime);
+  if (!queue) {
+    queue = new Map();
+    pendingUpdates.set(runtime, queue);
+  }
+
+  const result = (queue.get(key) ?? Promise.resolve()).then(update);
+  const settled = result.catch(() => undefined);
+  queue.set(key, settled);
+  settled.then(() => {
+    if (queue.get(key) === settled) queue.delete(key);
+  });
+  return result;
+}
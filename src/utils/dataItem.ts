@@ -0,0 +1,130 @@
+import { createHash } from 'node:crypto';
+import type { DataItem } from '../types';
+import { AOError, AOErrorCode } from './errors';
+
+/**
+ * Signature and owner lengths in bytes for each ANS-104 signature type
+ */
+const SIGNATURE_LENGTHS: Record<number, { signature: number; owner: number }> = {
+  1: { signature: 512, owner: 512 }, // Arweave (RSA-PSS 4096)
+  2: { signature: 64, owner: 32 }, // ED25519
+  3: { signature: 65, owner: 65 }, // Ethereum (secp256k1)
+  4: { signature: 64, owner: 32 }, // Solana
+};
+
+/**
+ * Sequential reader over the bytes of a data item
+ */
+class ByteReader {
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {}
+
+  get remaining(): number {
+    return this.bytes.length - this.offset;
+  }
+
+  take(length: number): Uint8Array {
+    if (length < 0 || length > this.remaining) {
+      throw new AOError(AOErrorCode.VALIDATION_ERROR, 'Data item is truncated', { offset: this.offset, length });
+    }
+    const slice = this.bytes.subarray(this.offset, this.offset + length);
+    this.offset += length;
+    return slice;
+  }
+
+  byte(): number {
+    return this.take(1)[0];
+  }
+
+  /**
+   * Read a little-endian unsigned integer of the given width
+   */
+  uint(width: number): number {
+    return this.take(width).reduceRight((value, byte) => value * 256 + byte, 0);
+  }
+
+  /**
+   * Read an Avro long: a zig-zag encoded variable-length integer
+   */
+  long(): number {
+    let value = 0;
+    let multiplier = 1;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * multiplier;
+      multiplier *= 128;
+    } while (byte & 0x80);
+    return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+  }
+
+  /**
+   * Read an Avro string
+   */
+  string(): string {
+    return Buffer.from(this.take(this.long())).toString('utf8');
+  }
+}
+
+/**
+ * Decode the Avro array of `{ name, value }` records that holds a data item's tags
+ */
+function decodeTags(bytes: Uint8Array): { name: string; value: string }[] {
+  const tags: { name: string; value: string }[] = [];
+  if (bytes.length === 0) return tags;
+
+  const reader = new ByteReader(bytes);
+  for (let count = reader.long(); count !== 0; count = reader.long()) {
+    if (count < 0) {
+      // A negative block count is followed by the block's size in bytes
+      count = -count;
+      reader.long();
+    }
+    for (let i = 0; i < count; i++) {
+      tags.push({ name: reader.string(), value: reader.string() });
+    }
+  }
+  return tags;
+}
+
+/**
+ * Parse a signed ANS-104 data item, as posted to an MU
+ *
+ * The ID is the SHA-256 digest of the signature and the owner the SHA-256
+ * digest of the signer's public key, which for Arweave signers is the wallet
+ * address. The signature itself is not verified.
+ * @param bytes - The raw data item
+ * @returns The data item's ID, owner, target, anchor, tags and data
+ */
+export function parseDataItem(bytes: Uint8Array): DataItem {
+  const reader = new ByteReader(bytes);
+  const signatureType = reader.uint(2);
+  const lengths = SIGNATURE_LENGTHS[signatureType];
+  if (!lengths) {
+    throw new AOError(AOErrorCode.VALIDATION_ERROR, `Unsupported data item signature type ${signatureType}`, {
+      signatureType,
+    });
+  }
+
+  const signature = reader.take(lengths.signature);
+  const owner = reader.take(lengths.owner);
+  const target = reader.byte() === 1 ? Buffer.from(reader.take(32)).toString('base64url') : undefined;
+  const anchor = reader.byte() === 1 ? Buffer.from(reader.take(32)).toString('utf8') : undefined;
+  const tagCount = reader.uint(8);
+  const tags = decodeTags(reader.take(reader.uint(8)));
+  if (tags.length !== tagCount) {
+    throw new AOError(AOErrorCode.VALIDATION_ERROR, `Data item declares ${tagCount} tags but holds ${tags.length}`, {
+      tagCount,
+    });
+  }
+
+  return {
+    id: createHash('sha256').update(signature).digest('base64url'),
+    owner: createHash('sha256').update(owner).digest('base64url'),
+    target,
+    anchor,
+    tags,
+    data: Buffer.from(reader.take(reader.remaining)).toString('utf8'),
+  };
+}
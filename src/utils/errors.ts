@@ -1,4 +1,5 @@
 import { logger } from '@elizaos/core';
+import { getOutputText } from './output';
 
 export enum AOErrorCode {
   VALIDATION_ERROR = 'VALIDATION_ERROR',
@@ -10,6 +11,12 @@ export enum AOErrorCode {
   UNAUTHORIZED = 'UNAUTHORIZED',
   SERVICE_NOT_INITIALIZED = 'SERVICE_NOT_INITIALIZED',
   CONFIGURATION_ERROR = 'CONFIGURATION_ERROR',
+  TIMEOUT = 'TIMEOUT',
+  PROCESS_NOT_FOUND = 'PROCESS_NOT_FOUND',
+  RATE_LIMITED = 'RATE_LIMITED',
+  EVALUATION_ERROR = 'EVALUATION_ERROR',
+  SCHEDULER_ERROR = 'SCHEDULER_ERROR',
+  UNSUPPORTED_OPERATION = 'UNSUPPORTED_OPERATION',
 }
 
 export interface AOErrorResponse {
@@ -42,48 +49,269 @@ export class AOError extends Error {
   }
 }
 
-export function handleAOError(error: unknown): AOErrorResponse {
-  logger.error('AO plugin error:', error);
+/**
+ * Default message and AO-specific suggestions for classified errors
+ */
+const ERROR_CLASSES: Partial<Record<AOErrorCode, { message: string; suggestions: string[] }>> = {
+  [AOErrorCode.NETWORK_ERROR]: {
+    message: 'Could not reach the AO network',
+    suggestions: [
+      'The MU or CU may be temporarily unavailable; try again shortly',
+      'Check that AO_MU_URL, AO_CU_URL and AO_GATEWAY_URL are reachable',
+    ],
+  },
+  [AOErrorCode.TIMEOUT]: {
+    message: 'The AO network did not respond in time',
+    suggestions: [
+      'Retry the operation; AO units can be slow under load',
+      'Increase AO_DEFAULT_TIMEOUT for long-running evaluations',
+    ],
+  },
+  [AOErrorCode.RATE_LIMITED]: {
+    message: 'The AO unit is rate limiting requests',
+    suggestions: ['Wait a few seconds before retrying', 'Reduce how often the agent polls results or dry runs'],
+  },
+  [AOErrorCode.PROCESS_NOT_FOUND]: {
+    message: 'The process or message was not found',
+    suggestions: [
+      'Check the ID; AO process and message IDs are 43-character base64url strings',
+      'A newly spawned process can take a few seconds to reach the scheduler and gateway',
+    ],
+  },
+  [AOErrorCode.SCHEDULER_ERROR]: {
+    message: 'The scheduler rejected the request',
+    suggestions: [
+      'Check the scheduler address has a valid Scheduler-Location record',
+      'Use a known scheduler, e.g. _GQ33BkPtZrqxA84vM8Zk-N2aO0toNNu_C-l-rawrBA on legacynet',
+    ],
+  },
+  [AOErrorCode.UNAUTHORIZED]: {
+    message: 'The AO unit refused the request',
+    suggestions: ['Check that the wallet is allowed to message this process', 'Verify the signer matches AO_WALLET_JWK'],
+  },
+  [AOErrorCode.TRANSACTION_FAILED]: {
+    message: 'The message was rejected by the AO network',
+    suggestions: [
+      'Check the tags and data; tag names and values must be strings',
+      'Keep messages small; MUs reject oversized data items',
+    ],
+  },
+  [AOErrorCode.EVALUATION_ERROR]: {
+    message: 'The process failed to evaluate the message',
+    suggestions: [
+      "Check the handler for the message's Action tag in the process source",
+      'Dry run the same message to inspect the error without sending it',
+    ],
+  },
+  [AOErrorCode.VALIDATION_ERROR]: {
+    message: 'Invalid input',
+    suggestions: ['Check the parameters passed to the action'],
+  },
+};
+
+/**
+ * Connection-level error codes that indicate a transient failure
+ */
+const TRANSIENT_CONNECTION_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+];
+
+/**
+ * Error names raised by @permaweb/ao-scheduler-utils when locating a scheduler
+ */
+const SCHEDULER_ERROR_NAMES = ['SchedulerTagNotFound', 'InvalidSchedulerLocation'];
+
+/**
+ * Extract the HTTP status from an error thrown by aoconnect
+ *
+ * aoconnect reports non-2xx responses as `Error("<status>: <body>")`.
+ */
+export function getHttpStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') return undefined;
+
+  const candidate = (error as any).status ?? (error as any).response?.status;
+  if (typeof candidate === 'number') return candidate;
+
+  const match = /^(\d{3}):/.exec((error as any).message ?? '');
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Map an HTTP status from an MU, CU or gateway to an error code
+ */
+function codeFromStatus(status: number): AOErrorCode | undefined {
+  if (status === 404) return AOErrorCode.PROCESS_NOT_FOUND;
+  if (status === 429) return AOErrorCode.RATE_LIMITED;
+  if (status === 401 || status === 403) return AOErrorCode.UNAUTHORIZED;
+  if (status === 408 || status === 504) return AOErrorCode.TIMEOUT;
+  if (status >= 500) return AOErrorCode.NETWORK_ERROR;
+  if (status === 400 || status === 413 || status === 422) return AOErrorCode.TRANSACTION_FAILED;
+  return undefined;
+}
+
+/**
+ * Determine the error code for an error that is not an AOError
+ */
+function codeFromError(error: unknown): AOErrorCode {
+  if (isResultWithError(error)) {
+    return AOErrorCode.EVALUATION_ERROR;
+  }
+
+  if (!(error instanceof Error)) {
+    return AOErrorCode.PROTOCOL_ERROR;
+  }
+
+  if (error.name === 'AbortError' || error.name === 'TimeoutError') {
+    return AOErrorCode.TIMEOUT;
+  }
+
+  // aoconnect rejects spawns to unknown schedulers with a plain message
+  if (SCHEDULER_ERROR_NAMES.includes(error.name) || /^Valid Scheduler-Location owned by/.test(error.message)) {
+    return AOErrorCode.SCHEDULER_ERROR;
+  }
+
+  if (error.name === 'TransactionNotFound') {
+    return AOErrorCode.PROCESS_NOT_FOUND;
+  }
+
+  const status = getHttpStatus(error);
+  const statusCode = status !== undefined ? codeFromStatus(status) : undefined;
+  if (statusCode) {
+    return statusCode;
+  }
+
+  const connectionCode = (error as any).code ?? (error as any).cause?.code;
+  if (TRANSIENT_CONNECTION_CODES.includes(connectionCode)) {
+    return AOErrorCode.NETWORK_ERROR;
+  }
+  // fetch() raises a TypeError for DNS, TLS and connection failures, which
+  // aoconnect wraps when talking to the MU
+  if ((error instanceof TypeError && error.message === 'fetch failed') || /^Error while communicating with MU/.test(error.message)) {
+    return AOErrorCode.NETWORK_ERROR;
+  }
 
+  if (error.name === 'ZodError') {
+    return AOErrorCode.VALIDATION_ERROR;
+  }
+
+  return AOErrorCode.PROTOCOL_ERROR;
+}
+
+/**
+ * Check whether a value is an AOResult carrying a CU evaluation error
+ */
+function isResultWithError(value: unknown): value is { Error: unknown } {
+  return (
+    !!value &&
+    typeof value === 'object' &&
+    !(value instanceof Error) &&
+    'Output' in value &&
+    (value as any).Error !== undefined &&
+    (value as any).Error !== null &&
+    (value as any).Error !== ''
+  );
+}
+
+/**
+ * Render an AOResult Error field as text
+ */
+function describeResultError(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as any).message === 'string') {
+    return (value as any).message;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Classify an arbitrary error from aoconnect or the AO network
+ * @param error - The error to classify
+ * @returns An AOError with an AO-specific code, message and suggestions
+ */
+export function classifyAOError(error: unknown): AOError {
   if (error instanceof AOError) {
-    return error.toResponse();
+    return error;
   }
 
-  if (error instanceof Error) {
-    // Check for common errors
-    if (error.message.includes('insufficient funds')) {
-      return new AOError(
-        AOErrorCode.INSUFFICIENT_BALANCE,
-        'Insufficient balance to complete transaction',
-        { originalError: error.message },
-        ['Check your wallet balance', 'Ensure you have enough AR for fees']
-      ).toResponse();
-    }
-
-    if (error.message.includes('network') || error.message.includes('connection')) {
-      return new AOError(
-        AOErrorCode.NETWORK_ERROR,
-        'Network connection error',
-        { originalError: error.message },
-        ['Check your internet connection', 'Verify gateway is accessible']
-      ).toResponse();
-    }
-
-    if (error.message.includes('reverted')) {
-      return new AOError(
-        AOErrorCode.TRANSACTION_FAILED,
-        'Transaction reverted on chain',
-        { originalError: error.message },
-        ['Check transaction parameters', 'Ensure contract state allows this operation']
-      ).toResponse();
-    }
+  const code = codeFromError(error);
+  const known = ERROR_CLASSES[code];
+  const originalError = isResultWithError(error)
+    ? describeResultError(error.Error)
+    : error instanceof Error
+      ? error.message
+      : String(error);
+  const status = getHttpStatus(error);
+
+  return new AOError(
+    code,
+    known?.message ?? 'An unexpected error occurred',
+    status !== undefined ? { originalError, status } : { originalError },
+    known?.suggestions ?? ['Please try again', 'Contact support if the issue persists']
+  );
+}
+
+/**
+ * Determine the AOErrorCode for an arbitrary error
+ * @param error - The error to classify
+ * @returns The error code; PROTOCOL_ERROR when nothing more specific applies
+ */
+export function getAOErrorCode(error: unknown): AOErrorCode {
+  return error instanceof AOError ? error.code : codeFromError(error);
+}
+
+/**
+ * Find a Lua error in process output
+ *
+ * aos reports handler errors in Output.data rather than in Error, as a line
+ * like `[string "aos"]:3: attempt to index a nil value` usually followed by a
+ * stack traceback.
+ * @param text - Output text with ANSI codes removed
+ * @returns The error line, or undefined if the output has no Lua error
+ */
+export function findLuaError(text: string | undefined): string | undefined {
+  if (!text) return undefined;
+
+  const lines = text.split('\n').map(line => line.trim());
+  const location = lines.find(line => /\[string "[^"]*"\]:\d+:/.test(line));
+  if (location) return location;
+
+  const traceback = lines.indexOf('stack traceback:');
+  if (traceback > 0) {
+    return lines.slice(0, traceback).filter(Boolean).pop();
   }
 
-  // Generic error
+  return undefined;
+}
+
+/**
+ * Get the evaluation error reported by a CU in an AOResult
+ *
+ * Both the Error field and Lua errors printed to Output.data are detected.
+ * @param result - The result of a message evaluation or dry run
+ * @returns An EVALUATION_ERROR AOError, or undefined if evaluation succeeded
+ */
+export function getAOResultError(result: unknown): AOError | undefined {
+  const outputText = result && typeof result === 'object' ? getOutputText((result as any).Output) : undefined;
+  const errorText = isResultWithError(result) ? describeResultError(result.Error) : findLuaError(outputText);
+  if (!errorText) return undefined;
+
   return new AOError(
-    AOErrorCode.PROTOCOL_ERROR,
-    'An unexpected error occurred',
-    { originalError: String(error) },
-    ['Please try again', 'Contact support if the issue persists']
-  ).toResponse();
+    AOErrorCode.EVALUATION_ERROR,
+    `Process evaluation failed: ${errorText}`,
+    { originalError: errorText, output: outputText },
+    ERROR_CLASSES[AOErrorCode.EVALUATION_ERROR]?.suggestions
+  );
+}
+
+export function handleAOError(error: unknown): AOErrorResponse {
+  logger.error('AO plugin error:', error);
+
+  return classifyAOError(error).toResponse();
 }
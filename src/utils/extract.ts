@@ -0,0 +1,132 @@
+import type { IAgentRuntime, Memory, State } from '@elizaos/core';
+import { ModelType, composePromptFromState, logger, parseJSONObjectFromText } from '@elizaos/core';
+import { z } from 'zod';
+import { AOProcessRegistry } from '../services/AOProcessRegistry';
+import { AOError, AOErrorCode } from './errors';
+
+/**
+ * Parse the JSON payload of a message
+ * @param message - The incoming message
+ * @returns The parsed object, or undefined if the message is not JSON
+ */
+export function parseJsonContent(message: Memory): Record<string, unknown> | undefined {
+  const text = message.content.text;
+  if (typeof text !== 'string') {
+    return text && typeof text === 'object' ? (text as Record<string, unknown>) : undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(text);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : undefined;
+  } catch (error) {
+    return undefined;
+  }
+}
+
+/**
+ * Validate action parameters against a schema, surfacing failures as AOErrors
+ * @param schema - The action's input schema
+ * @param content - The candidate parameters
+ */
+export async function parseActionParams<T extends z.ZodTypeAny>(
+  schema: T,
+  content: unknown
+): Promise<z.infer<T>> {
+  const parsed = await schema.safeParseAsync(content);
+  if (!parsed.success) {
+    const errors = parsed.error.errors.map(e => `${e.path.join('.') || 'input'}: ${e.message}`).join(', ');
+    throw new AOError(
+      AOErrorCode.VALIDATION_ERROR,
+      `Invalid action parameters: ${errors}`,
+      { issues: parsed.error.errors },
+      ['Provide the missing values in your request', 'Or pass the parameters as a JSON object']
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Parse the JSON object in a model response
+ *
+ * Strict parsing is tried first because the runtime's lenient parser turns
+ * `null` into the string "null".
+ */
+function parseModelObject(response: string): Record<string, unknown> | null {
+  const block = response.match(/```(?:json)?\s*([\s\S]*?)```/);
+  try {
+    const parsed = JSON.parse((block ? block[1] : response).trim());
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+  } catch (error) {
+    return parseJSONObjectFromText(response);
+  }
+}
+
+/**
+ * Remove null and undefined values the model emits for fields it could not find
+ */
+function stripEmpty(value: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== null && v !== undefined));
+}
+
+/**
+ * Replace a process label, such as "my counter process", with the ID of the
+ * known process it names
+ */
+async function resolveProcessReference(
+  runtime: IAgentRuntime,
+  params: Record<string, unknown>
+): Promise<Record<string, unknown>> {
+  if (typeof params.process !== 'string') return params;
+
+  const known = await new AOProcessRegistry(runtime).resolve(params.process);
+  return known ? { ...params, process: known.processId } : params;
+}
+
+/**
+ * Resolve action parameters from a message
+ *
+ * JSON messages are validated directly. Anything else is passed through the
+ * extraction template and the model's answer is validated with the same schema.
+ * A `process` given as the label of a known process is replaced by its ID.
+ * @param runtime - The agent runtime used to call the model
+ * @param message - The incoming message
+ * @param state - Current conversation state
+ * @param schema - The action's input schema
+ * @param template - Extraction prompt template for the action
+ */
+export async function extractActionParams<T extends z.ZodTypeAny>(
+  runtime: IAgentRuntime,
+  message: Memory,
+  state: State | undefined,
+  schema: T,
+  template: string
+): Promise<z.infer<T>> {
+  const content = parseJsonContent(message);
+  if (content !== undefined) {
+    return parseActionParams(schema, await resolveProcessReference(runtime, content));
+  }
+
+  const prompt = composePromptFromState({
+    state: {
+      ...state,
+      values: { ...state?.values, userMessage: message.content.text ?? '' },
+      data: state?.data ?? {},
+      text: state?.text ?? ''
+    },
+    template
+  });
+
+  const response = await runtime.useModel(ModelType.TEXT_SMALL, { prompt });
+  const extracted = parseModelObject(String(response));
+  if (!extracted) {
+    logger.warn('AO parameter extraction returned no JSON object');
+    throw new AOError(
+      AOErrorCode.VALIDATION_ERROR,
+      'Could not determine the action parameters from the message',
+      { response: String(response) },
+      ['Rephrase the request with explicit process, module or message IDs', 'Or pass the parameters as a JSON object']
+    );
+  }
+
+  return parseActionParams(schema, await resolveProcessReference(runtime, stripEmpty(extracted)));
+}
@@ -1,3 +1,7 @@
+import type { AOResult, AOTransaction, DecodedAOMessage, DecodedAOResult, DecodedAOSpawn, KnownProcess, ProcessDescription, SentMessage } from '../types';
+import { AOError, AOErrorCode } from './errors';
+import { getOutputText, stripAnsi } from './output';
+
 export function formatTransactionHash(hash: string): string {
   if (!hash || hash.length < 10) return hash;
   return `${hash.slice(0, 6)}...${hash.slice(-4)}`;
@@ -11,17 +15,298 @@ export function formatMessageId(id: string): string {
   return formatTransactionHash(id);
 }
 
+/**
+ * @deprecated Loses precision for token quantities; use formatTokenAmount
+ */
 export function formatAOAmount(amount: number): string {
   return `${amount.toLocaleString()} AR`;
 }
 
-export function formatAOResult(result: any): string {
-  const lines = [
-    `Output: ${JSON.stringify(result.Output, null, 2)}`,
-    `Messages: ${result.Messages.length} message(s)`,
-    `Spawns: ${result.Spawns.length} spawn(s)`,
-    `Error: ${result.Error ? JSON.stringify(result.Error, null, 2) : 'None'}`
-  ];
+/**
+ * Parse an amount in whole tokens into a quantity in base units
+ *
+ * Accepts digits with an optional fraction, thousands separators and a
+ * trailing ticker, e.g. `"1,234.5 TKN"`. Parsing is exact: amounts with more
+ * significant decimals than the denomination are rejected, never rounded.
+ * @param amount - The amount in whole tokens
+ * @param denomination - Number of decimal places in a quantity
+ * @param ticker - Optional ticker that may follow the amount
+ * @returns The quantity in base units
+ */
+export function parseTokenAmount(amount: string, denomination: number, ticker?: string): bigint {
+  let text = amount.trim();
+  if (ticker && text.toLowerCase().endsWith(ticker.toLowerCase())) {
+    text = text.slice(0, -ticker.length).trim();
+  }
+
+  const match = /^(\d+)(?:\.(\d*))?$/.exec(text.replace(/[,_]/g, ''));
+  const fraction = (match?.[2] ?? '').replace(/0+$/, '');
+  if (!match || fraction.length > denomination) {
+    throw new AOError(
+      AOErrorCode.VALIDATION_ERROR,
+      `Invalid token amount: ${amount}`,
+      { amount, denomination },
+      [`Use a non-negative number with at most ${denomination} decimal places, e.g. "1.5"`]
+    );
+  }
+
+  return BigInt(match[1]) * 10n ** BigInt(denomination) + BigInt(fraction.padEnd(denomination, '0') || '0');
+}
+
+/**
+ * Format a quantity in base units as an amount in whole tokens
+ *
+ * The inverse of parseTokenAmount; no precision is lost.
+ * @param quantity - The quantity in base units, as a bigint or integer string
+ * @param denomination - Number of decimal places in a quantity
+ * @param ticker - Optional ticker to append
+ */
+export function formatTokenAmount(quantity: bigint | string, denomination: number, ticker?: string): string {
+  if (typeof quantity === 'string' && !/^\d+$/.test(quantity)) {
+    throw new AOError(
+      AOErrorCode.PROTOCOL_ERROR,
+      `Invalid token quantity: "${quantity}"`,
+      { quantity, denomination },
+      ['Token quantities are integers in base units; check that the process implements the AO token standard']
+    );
+  }
+
+  const value = BigInt(quantity);
+  const sign = value < 0n ? '-' : '';
+  const digits = (value < 0n ? -value : value).toString().padStart(denomination + 1, '0');
+  const whole = denomination > 0 ? digits.slice(0, -denomination) : digits;
+  const fraction = denomination > 0 ? digits.slice(-denomination).replace(/0+$/, '') : '';
+  const amount = `${sign}${whole}${fraction ? `.${fraction}` : ''}`;
+  return ticker ? `${amount} ${ticker}` : amount;
+}
+
+/**
+ * Protocol tags that aos adds to every message; omitted from chat summaries
+ */
+const PROTOCOL_TAGS = ['Data-Protocol', 'Variant', 'Type', 'Reference', 'Ref_', 'From-Process', 'From-Module', 'Pushed-For'];
+
+/**
+ * Longest message data shown in a chat summary
+ */
+const MAX_DATA_LENGTH = 200;
+
+/**
+ * Convert a tag list or tag record to a record keyed by tag name
+ */
+function tagsToRecord(tags: unknown): Record<string, string> {
+  if (Array.isArray(tags)) {
+    return Object.fromEntries(
+      tags
+        .filter(tag => tag && typeof tag.name === 'string')
+        .map(tag => [tag.name, String(tag.value)])
+    );
+  }
+  if (tags && typeof tags === 'object') {
+    return Object.fromEntries(Object.entries(tags).map(([name, value]) => [name, String(value)]));
+  }
+  return {};
+}
+
+/**
+ * Parse message data as JSON when it looks like JSON, otherwise return it unchanged
+ */
+function decodeData(data: unknown): unknown {
+  if (typeof data !== 'string') return data;
+
+  const trimmed = data.trim();
+  if (!/^[[{]/.test(trimmed)) return data;
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    return data;
+  }
+}
+
+/**
+ * Render an AOResult Error field as text
+ */
+function describeError(error: unknown): string | undefined {
+  if (error === undefined || error === null || error === '') return undefined;
+  if (typeof error === 'string') return stripAnsi(error);
+  if (typeof (error as any).message === 'string') return stripAnsi((error as any).message);
+  return JSON.stringify(error);
+}
+
+/**
+ * Decode an AOResult into a structured summary
+ * @param result - The result of a message evaluation or dry run
+ */
+export function decodeAOResult(result: AOResult): DecodedAOResult {
+  const messages = (result.Messages ?? []).map((message: any): DecodedAOMessage => {
+    const tags = tagsToRecord(message?.Tags);
+    return {
+      target: message?.Target ?? tags.Target,
+      action: tags.Action,
+      tags,
+      data: decodeData(message?.Data),
+    };
+  });
+
+  const spawns = (result.Spawns ?? []).map((spawn: any): DecodedAOSpawn => {
+    const tags = tagsToRecord(spawn?.Tags);
+    return {
+      name: tags.Name,
+      module: spawn?.Module ?? tags.Module,
+      tags,
+      data: decodeData(spawn?.Data),
+    };
+  });
+
+  const outputText = getOutputText(result.Output);
+  const isEmpty =
+    result.Output === undefined ||
+    result.Output === null ||
+    result.Output === '' ||
+    (typeof result.Output === 'object' && Object.keys(result.Output as object).length === 0);
+
+  return {
+    output: outputText ?? (isEmpty ? undefined : result.Output),
+    messages,
+    spawns,
+    error: describeError(result.Error),
+  };
+}
+
+/**
+ * Render decoded data on one line, truncating long values
+ */
+function formatData(data: unknown): string {
+  const text = typeof data === 'string' ? data : JSON.stringify(data);
+  return text.length > MAX_DATA_LENGTH ? `${text.slice(0, MAX_DATA_LENGTH)}...` : text;
+}
 
+function formatTags(tags: Record<string, string>, omit: string[]): string {
+  return Object.entries(tags)
+    .filter(([name]) => !omit.includes(name) && !PROTOCOL_TAGS.includes(name))
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+}
+
+/**
+ * Format an AOResult as a compact chat summary
+ * @param result - The result of a message evaluation or dry run
+ */
+export function formatAOResult(result: AOResult): string {
+  const decoded = decodeAOResult(result);
+  const lines: string[] = [];
+
+  if (decoded.output === undefined) {
+    lines.push('Output: none');
+  } else if (typeof decoded.output === 'string') {
+    lines.push(decoded.output.includes('\n') ? `Output:\n${decoded.output.trimEnd()}` : `Output: ${decoded.output}`);
+  } else {
+    lines.push(`Output: ${formatData(decoded.output)}`);
+  }
+
+  if (decoded.messages.length > 0) {
+    lines.push(`Messages (${decoded.messages.length}):`);
+    decoded.messages.forEach((message, index) => {
+      const tags = formatTags(message.tags, ['Target', 'Action']);
+      lines.push(
+        `  ${index + 1}. ${message.action ?? 'Message'} -> ${message.target ? formatProcessId(message.target) : 'unknown'}` +
+          (tags ? ` [${tags}]` : '')
+      );
+      if (message.data !== undefined && message.data !== '') {
+        lines.push(`     Data: ${formatData(message.data)}`);
+      }
+    });
+  }
+
+  if (decoded.spawns.length > 0) {
+    lines.push(`Spawns (${decoded.spawns.length}):`);
+    decoded.spawns.forEach((spawn, index) => {
+      const tags = formatTags(spawn.tags, ['Name', 'Module']);
+      lines.push(
+        `  ${index + 1}. ${spawn.name ?? 'Unnamed process'}` +
+          (spawn.module ? ` (module ${formatTransactionHash(spawn.module)})` : '') +
+          (tags ? ` [${tags}]` : '')
+      );
+    });
+  }
+
+  if (decoded.error) {
+    lines.push(`Error: ${decoded.error}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Format a process description as a concise list of supported actions
+ * @param description - The description returned by AOService.describeProcess
+ */
+export function formatProcessDescription(description: ProcessDescription): string {
+  const label = [description.name, description.ticker && `${description.ticker} token`].filter(Boolean).join(', ');
+  const lines = [`Process ${description.process}${label ? ` (${label})` : ''}`];
+
+  if (description.owner) {
+    lines.push(`Owner: ${description.owner}`);
+  }
+
+  if (description.handlers.length === 0) {
+    lines.push(
+      description.responded
+        ? 'The process replied to Info but did not list its handlers.'
+        : 'The process did not reply to Action: Info; its supported actions are unknown.'
+    );
+    return lines.join('\n');
+  }
+
+  lines.push('Supported actions:');
+  for (const handler of description.handlers) {
+    lines.push(`- ${handler.action}${handler.tags?.length ? ` (tags: ${handler.tags.join(', ')})` : ''}`);
+  }
   return lines.join('\n');
 }
+
+/**
+ * Format a known process as a single list line
+ * @param known - The registry entry
+ */
+export function formatKnownProcess(known: KnownProcess): string {
+  const label = known.labels.length ? known.labels.join(', ') : 'unlabelled';
+  const when = known.createdAt ?? known.registeredAt;
+  const origin = `${known.source === 'spawned' ? 'spawned' : 'registered'} ${new Date(when).toISOString().slice(0, 10)}`;
+  return `- ${label}: ${known.processId} (${origin})`;
+}
+
+/**
+ * Format a logged message as a single list line
+ * @param sent - The message log entry
+ * @param now - Current time, used to describe the message's age
+ */
+export function formatSentMessage(sent: SentMessage, now: number = Date.now()): string {
+  const action = sent.tags.find(tag => tag.name === 'Action')?.value;
+  const minutes = Math.max(0, Math.round((now - sent.sentAt) / 60000));
+  const age = minutes === 0 ? 'just now' : `${minutes} min ago`;
+  return `- ${action ?? 'Message'} to ${sent.process}: message ${sent.messageId}, sent ${age}`;
+}
+
+/**
+ * Format a message a monitored process sent to the agent
+ * @param process - The process that sent the message
+ * @param message - The decoded message
+ */
+export function formatReceivedMessage(process: string, message: DecodedAOMessage): string {
+  const tags = formatTags(message.tags, ['Target', 'Action']);
+  const lines = [`${message.action ?? 'Message'} from process ${process}${tags ? ` [${tags}]` : ''}`];
+  if (message.data !== undefined && message.data !== '') {
+    lines.push(`Data: ${formatData(message.data)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format a process found through GraphQL as a single list line
+ * @param transaction - The process's spawn transaction
+ */
+export function formatSpawnedProcess(transaction: AOTransaction): string {
+  const name = transaction.tags.find(tag => tag.name === 'Name')?.value;
+  const when = transaction.timestamp ? `spawned ${new Date(transaction.timestamp).toISOString().slice(0, 10)}` : 'pending';
+  return `- ${name ?? 'unnamed'}: ${transaction.id} (${when})`;
+}
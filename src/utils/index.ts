@@ -1,2 +1,9 @@
 export * from './errors';
 export * from './format';
+export * from './output';
+export * from './introspection';
+export * from './lua';
+export * from './retry';
+export * from './wallet';
+export * from './dataItem';
+export * from './validation';
@@ -0,0 +1,93 @@
+import type { AOResult, ProcessDescription, ProcessHandler } from '../types';
+import { decodeAOResult } from './format';
+
+/**
+ * Handlers every process implementing the AO token standard supports
+ */
+const TOKEN_HANDLERS: ProcessHandler[] = [
+  { action: 'Info' },
+  { action: 'Balance', tags: ['Target'] },
+  { action: 'Balances' },
+  { action: 'Transfer', tags: ['Recipient', 'Quantity'] },
+];
+
+/**
+ * Normalize one entry of a reported handler list
+ *
+ * Processes report handlers either as names or as objects such as
+ * `{ "name": "Transfer", "tags": ["Recipient", "Quantity"] }`.
+ */
+function toHandler(entry: unknown): ProcessHandler | undefined {
+  if (typeof entry === 'string' && entry.trim()) {
+    return { action: entry.trim() };
+  }
+  if (!entry || typeof entry !== 'object') return undefined;
+
+  const record = entry as Record<string, unknown>;
+  const action = record.action ?? record.Action ?? record.name ?? record.Name;
+  if (typeof action !== 'string' || !action) return undefined;
+
+  const tags = record.tags ?? record.Tags;
+  return Array.isArray(tags) ? { action, tags: tags.map(String) } : { action };
+}
+
+/**
+ * Parse a Handlers value, given as an array, a JSON array string or a comma-separated list
+ */
+function parseHandlers(value: unknown): ProcessHandler[] {
+  let entries = value;
+  if (typeof value === 'string') {
+    try {
+      entries = JSON.parse(value);
+    } catch {
+      entries = value.split(',');
+    }
+  }
+  return Array.isArray(entries) ? entries.map(toHandler).filter((handler): handler is ProcessHandler => !!handler) : [];
+}
+
+/**
+ * Build a process description from the result of an `Action: Info` dry run
+ *
+ * Reads Name, Ticker, Owner and Handlers from the reply's tags or JSON data.
+ * Processes that look like tokens are assumed to support the token standard
+ * handlers even when they do not list them.
+ * @param process - The process ID
+ * @param result - The dry run result
+ */
+export function parseProcessInfo(process: string, result: AOResult): ProcessDescription {
+  const { messages } = decodeAOResult(result);
+  const fields: Record<string, unknown> = {};
+
+  for (const message of messages) {
+    if (message.data && typeof message.data === 'object' && !Array.isArray(message.data)) {
+      Object.assign(fields, message.data);
+    }
+    Object.assign(fields, message.tags);
+  }
+
+  const read = (name: string) => (typeof fields[name] === 'string' && fields[name] ? (fields[name] as string) : undefined);
+  const ticker = read('Ticker');
+  const isToken = !!ticker || fields.Denomination !== undefined;
+
+  const handlers = new Map<string, ProcessHandler>();
+  for (const handler of [...parseHandlers(fields.Handlers), ...(isToken ? TOKEN_HANDLERS : [])]) {
+    if (!handlers.has(handler.action)) {
+      handlers.set(handler.action, handler);
+    }
+  }
+  if (messages.length > 0 && !handlers.has('Info')) {
+    handlers.set('Info', { action: 'Info' });
+  }
+
+  return {
+    process,
+    name: read('Name'),
+    ticker,
+    owner: read('Owner'),
+    handlers: [...handlers.values()],
+    isToken,
+    responded: messages.length > 0,
+    fetchedAt: Date.now(),
+  };
+}
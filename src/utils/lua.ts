@@ -0,0 +1,50 @@
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import type { LuaSource } from '../types';
+import { AOError, AOErrorCode } from './errors';
+
+/**
+ * Read Lua sources into named code blocks, in order
+ *
+ * Only `.lua` files are read, so a request cannot be used to publish other
+ * local files, such as wallets, to a process.
+ * @param sources - File paths or inline code
+ * @returns The name and code of each source
+ */
+export async function readLuaSources(sources: LuaSource[]): Promise<{ name: string; code: string }[]> {
+  return Promise.all(
+    sources.map(async (source, index) => {
+      if (!source.path) {
+        if (!source.code) {
+          throw new AOError(
+            AOErrorCode.VALIDATION_ERROR,
+            `Lua source ${index + 1} has neither a path nor code`,
+            { index },
+            ['Give each source a path to a .lua file or inline code']
+          );
+        }
+        return { name: source.name ?? `inline-${index + 1}`, code: source.code };
+      }
+
+      if (extname(source.path).toLowerCase() !== '.lua') {
+        throw new AOError(
+          AOErrorCode.VALIDATION_ERROR,
+          `Only .lua files can be loaded into a process: ${source.path}`,
+          { path: source.path },
+          ['Pass the path of a .lua file, or pass the code inline']
+        );
+      }
+
+      try {
+        return { name: source.name ?? basename(source.path), code: await readFile(source.path, 'utf8') };
+      } catch (error) {
+        throw new AOError(
+          AOErrorCode.VALIDATION_ERROR,
+          `Unable to read Lua source at ${source.path}`,
+          { path: source.path, originalError: error instanceof Error ? error.message : String(error) },
+          ['Check that the path exists and is readable by the agent']
+        );
+      }
+    })
+  );
+}
@@ -0,0 +1,22 @@
+/**
+ * Remove ANSI color codes, which aos adds to its console output
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*[A-Za-z]/g, '');
+}
+
+/**
+ * Get the printable text of an AOResult Output
+ *
+ * Output is either a string, or an object whose `data` is a string or an
+ * object with an `output` field, depending on the aos version.
+ */
+export function getOutputText(output: unknown): string | undefined {
+  if (typeof output === 'string') return stripAnsi(output);
+  if (!output || typeof output !== 'object') return undefined;
+
+  const data = (output as any).data;
+  if (typeof data === 'string') return stripAnsi(data);
+  if (data && typeof data === 'object' && typeof data.output === 'string') return stripAnsi(data.output);
+  return undefined;
+}
@@ -0,0 +1,114 @@
+import { logger } from '@elizaos/core';
+import type { RetryPolicy } from '../types';
+import { AOError, AOErrorCode, classifyAOError, getAOErrorCode } from './errors';
+
+export const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 5000,
+  jitter: 0.2,
+  retryOn: [AOErrorCode.NETWORK_ERROR, AOErrorCode.TIMEOUT, AOErrorCode.RATE_LIMITED],
+};
+
+/**
+ * Create the error reported when an operation is aborted by the caller
+ * @param operation - Human readable name of the operation
+ */
+export function cancelledError(operation: string): AOError {
+  return new AOError(
+    AOErrorCode.TIMEOUT,
+    `${operation} was cancelled`,
+    { operation, cancelled: true },
+    ['The operation was aborted by the caller; retry it if it is still needed']
+  );
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting early if the signal aborts
+ * @param ms - Time to wait
+ * @param signal - Optional abort signal
+ * @param operation - Operation name used if the wait is cancelled
+ */
+export function sleep(ms: number, signal?: AbortSignal, operation = 'Waiting'): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(cancelledError(operation));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError(operation));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Compute the backoff delay before the next attempt
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - The retry policy
+ * @param random - Source of randomness, in [0, 1)
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(policy.baseDelay * 2 ** (attempt - 1), policy.maxDelay);
+  const spread = exponential * policy.jitter;
+  return Math.max(0, Math.round(exponential - spread + random() * 2 * spread));
+}
+
+/**
+ * Record the number of attempts on a failed operation's error
+ *
+ * Transient errors are classified into an AOError carrying `attempts` in its
+ * details; other non-AOErrors are returned untouched so callers can still
+ * inspect them.
+ */
+function withAttempts(error: unknown, attempts: number, transient: boolean): unknown {
+  if (!transient && !(error instanceof AOError)) {
+    return error;
+  }
+
+  const classified = classifyAOError(error);
+  classified.details = { ...classified.details, attempts };
+  return classified;
+}
+
+/**
+ * Run an operation, retrying transient failures according to a policy
+ * @param operation - Human readable name of the operation, used in logs
+ * @param task - The operation to run; receives the 1-based attempt number
+ * @param policy - The retry policy
+ * @param signal - Optional abort signal; aborted operations are never retried
+ */
+export async function withRetry<T>(
+  operation: string,
+  task: (attempt: number) => Promise<T>,
+  policy: Required<RetryPolicy>,
+  signal?: AbortSignal
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      const code = getAOErrorCode(error);
+      const transient = policy.retryOn.includes(code);
+
+      if (!transient || signal?.aborted || attempt >= policy.maxAttempts) {
+        throw withAttempts(error, attempt, transient);
+      }
+
+      const wait = getRetryDelay(attempt, policy);
+      logger.warn(
+        `AOService: ${operation} failed with ${code} (attempt ${attempt}/${policy.maxAttempts}), retrying in ${wait}ms`
+      );
+      await sleep(wait, signal, operation);
+    }
+  }
+}
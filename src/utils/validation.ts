@@ -0,0 +1,56 @@
+import { z } from 'zod';
+
+/**
+ * Matches Arweave transaction IDs and wallet addresses, which AO uses for
+ * process, message, module and scheduler IDs: 43 base64url characters
+ */
+export const ARWEAVE_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Check that a value is a well-formed Arweave ID
+ */
+export function isArweaveId(value: string): boolean {
+  return ARWEAVE_ID_PATTERN.test(value);
+}
+
+/**
+ * Schema for a required Arweave ID
+ * @param label - Name of the ID used in error messages, e.g. "Module ID"
+ */
+export function arweaveIdSchema(label: string) {
+  return z
+    .string()
+    .min(1, `${label} is required`)
+    .regex(ARWEAVE_ID_PATTERN, `${label} must be a 43-character base64url Arweave ID`);
+}
+
+/**
+ * Schema for the named spawn presets in AO_SPAWN_PRESETS
+ */
+export const spawnPresetsSchema = z.record(
+  z.object({
+    module: arweaveIdSchema('Module ID').optional(),
+    scheduler: arweaveIdSchema('Scheduler ID').optional(),
+    tags: z.array(z.object({ name: z.string(), value: z.string() })).optional(),
+    sources: z
+      .array(z.object({ path: z.string().optional(), code: z.string().optional(), name: z.string().optional() }))
+      .optional(),
+    description: z.string().optional()
+  })
+);
+
+/**
+ * Schema for the named network profiles in AO_NETWORKS
+ */
+export const networkProfilesSchema = z.record(
+  z.object({
+    mode: z.enum(['legacy', 'mainnet']).optional(),
+    gatewayUrl: z.string().url().optional(),
+    graphqlUrl: z.string().url().optional(),
+    muUrl: z.string().url().optional(),
+    cuUrl: z.string().url().optional(),
+    hyperbeamUrl: z.string().url().optional(),
+    executionDevice: z.string().min(1).optional(),
+    scheduler: arweaveIdSchema('Scheduler ID').optional()
+  })
+);
@@ -0,0 +1,115 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import type { IAgentRuntime } from '@elizaos/core';
+import { z } from 'zod';
+import { AOError, AOErrorCode } from './errors';
+
+/**
+ * Schema for an Arweave RSA JWK with the private fields needed for signing
+ */
+export const arweaveJwkSchema = z
+  .object({
+    kty: z.literal('RSA'),
+    n: z.string().min(1, 'Modulus (n) is required'),
+    e: z.string().min(1, 'Public exponent (e) is required'),
+    d: z.string().min(1, 'Private exponent (d) is required for signing'),
+    p: z.string().optional(),
+    q: z.string().optional(),
+    dp: z.string().optional(),
+    dq: z.string().optional(),
+    qi: z.string().optional()
+  })
+  .passthrough();
+
+export type ArweaveJWK = z.infer<typeof arweaveJwkSchema>;
+
+/**
+ * Parse and validate a wallet JWK given as a JSON string or an object
+ * @param raw - JSON-encoded JWK or an already parsed object
+ * @param source - Where the wallet came from, used in error messages
+ */
+export function parseWalletJwk(raw: unknown, source: string): ArweaveJWK {
+  let candidate = raw;
+  if (typeof raw === 'string') {
+    try {
+      candidate = JSON.parse(raw);
+    } catch (error) {
+      throw new AOError(
+        AOErrorCode.CONFIGURATION_ERROR,
+        `Wallet from ${source} is not valid JSON`,
+        { source },
+        ['Provide the full contents of an Arweave keyfile as JSON']
+      );
+    }
+  }
+
+  const parsed = arweaveJwkSchema.safeParse(candidate);
+  if (!parsed.success) {
+    const errors = parsed.error.errors.map(e => `${e.path.join('.') || 'jwk'}: ${e.message}`).join(', ');
+    throw new AOError(
+      AOErrorCode.CONFIGURATION_ERROR,
+      `Wallet from ${source} is not a valid Arweave JWK: ${errors}`,
+      { source },
+      ['Use an Arweave RSA keyfile (kty "RSA" with n, e and d fields)']
+    );
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Derive the Arweave address of a wallet
+ *
+ * The address is the base64url-encoded SHA-256 digest of the JWK modulus.
+ * @param jwk - Wallet JWK (only the public modulus is used)
+ * @returns The 43-character wallet address
+ */
+export function getWalletAddress(jwk: Pick<ArweaveJWK, 'n'>): string {
+  return createHash('sha256').update(Buffer.from(jwk.n, 'base64url')).digest('base64url');
+}
+
+/**
+ * Read and validate an Arweave keyfile from disk
+ * @param path - Path to the JSON keyfile
+ */
+export async function readWalletFile(path: string): Promise<ArweaveJWK> {
+  let contents: string;
+  try {
+    contents = await readFile(path, 'utf8');
+  } catch (error) {
+    throw new AOError(
+      AOErrorCode.CONFIGURATION_ERROR,
+      `Unable to read wallet file at ${path}`,
+      { path, originalError: error instanceof Error ? error.message : String(error) },
+      ['Check that AO_WALLET_PATH points to an existing, readable keyfile']
+    );
+  }
+
+  return parseWalletJwk(contents, `AO_WALLET_PATH (${path})`);
+}
+
+/**
+ * Resolve the signing wallet for a runtime
+ *
+ * Character settings (via `runtime.getSetting`) take precedence over the
+ * plugin-level configuration, and an inline JWK takes precedence over a path.
+ * @param runtime - The agent runtime to read settings from
+ * @param config - Validated plugin configuration used as a fallback
+ * @returns The wallet JWK, or undefined if none is configured
+ */
+export async function loadWallet(
+  runtime: IAgentRuntime,
+  config?: { AO_WALLET_JWK?: string; AO_WALLET_PATH?: string }
+): Promise<ArweaveJWK | undefined> {
+  const jwk = runtime.getSetting('AO_WALLET_JWK') || config?.AO_WALLET_JWK;
+  if (jwk) {
+    return parseWalletJwk(jwk, 'AO_WALLET_JWK');
+  }
+
+  const path = runtime.getSetting('AO_WALLET_PATH') || config?.AO_WALLET_PATH;
+  if (path) {
+    return readWalletFile(String(path));
+  }
+
+  return undefined;
+}